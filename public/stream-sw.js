@@ -0,0 +1,91 @@
+// Streams large received files into the browser's download manager.
+// The page posts a MessagePort per file and sends the chunks over it; fetching the
+// returned URL answers with a stream fed by those chunks. The stream asks the page
+// for each chunk once it has room, so a slow download does not fill the worker's memory.
+
+const DOWNLOAD_PREFIX = '__stream-download/';
+
+// Bytes buffered in a download stream before it stops asking for chunks
+const STREAM_HIGH_WATER_MARK = 4 * 1024 * 1024;
+
+// Streams waiting for their download request, keyed by URL
+const downloads = new Map();
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('message', (event) => {
+  const data = event.data;
+  if (!data || data.type !== 'stream-download' || !event.ports[0]) return;
+
+  const port = event.ports[0];
+  const id = Date.now().toString(36) + Math.random().toString(36).slice(2);
+  const url = new URL(DOWNLOAD_PREFIX + id + '/' + encodeURIComponent(data.name), self.registration.scope).href;
+
+  // Resolves the pending pull once the chunk it asked for arrived
+  let chunkArrived = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = (message) => {
+        const frame = message.data;
+        if (frame.type === 'chunk') {
+          controller.enqueue(new Uint8Array(frame.data));
+          if (chunkArrived) {
+            chunkArrived();
+            chunkArrived = null;
+          }
+        } else if (frame.type === 'end') {
+          controller.close();
+          port.close();
+        } else if (frame.type === 'abort') {
+          controller.error(new Error('Download aborted'));
+          port.close();
+          downloads.delete(url);
+        }
+        // Pings only keep the worker alive
+      };
+    },
+    // Called while the stream has room, one chunk is asked for at a time
+    pull() {
+      port.postMessage({ type: 'pull' });
+      return new Promise((resolve) => {
+        chunkArrived = resolve;
+      });
+    },
+    cancel() {
+      port.postMessage({ type: 'cancelled' });
+      port.close();
+      downloads.delete(url);
+    }
+  }, {
+    highWaterMark: STREAM_HIGH_WATER_MARK,
+    size: (chunk) => chunk.byteLength
+  });
+
+  downloads.set(url, { stream, name: data.name, size: data.size });
+  port.postMessage({ type: 'ready', url });
+});
+
+self.addEventListener('fetch', (event) => {
+  const download = downloads.get(event.request.url);
+  if (!download) return;
+  downloads.delete(event.request.url);
+
+  const headers = new Headers({
+    'Content-Type': 'application/octet-stream',
+    'Content-Disposition': "attachment; filename*=UTF-8''" + encodeURIComponent(download.name),
+    'Content-Security-Policy': "default-src 'none'",
+    'X-Content-Type-Options': 'nosniff'
+  });
+  if (download.size) {
+    headers.set('Content-Length', String(download.size));
+  }
+
+  event.respondWith(new Response(download.stream, { headers }));
+});
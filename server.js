@@ -0,0 +1,150 @@
+// Custom server running the Next.js app and a PeerJS signaling broker on the same port.
+// Use it instead of `next start` when the public PeerJS cloud broker is unreachable,
+// and set NEXT_PUBLIC_PEER_HOST=self so the browser connects back to this server.
+
+const { createServer } = require('http');
+const { parse } = require('url');
+const express = require('express');
+const next = require('next');
+const { ExpressPeerServer } = require('peer');
+const { WebSocketServer } = require('ws');
+
+const dev = process.env.NODE_ENV !== 'production';
+const hostname = process.env.HOSTNAME || '0.0.0.0';
+const port = parseInt(process.env.PORT || '3000', 10);
+
+// Mount point of the broker, must match NEXT_PUBLIC_PEER_PATH
+const peerPath = process.env.NEXT_PUBLIC_PEER_PATH || '/peerjs';
+// Key clients must present, must match NEXT_PUBLIC_PEER_KEY
+const peerKey = process.env.NEXT_PUBLIC_PEER_KEY || 'peerjs';
+// Mount point of the WebSocket relay used when WebRTC cannot connect, must match NEXT_PUBLIC_RELAY_PATH
+const relayPath = process.env.NEXT_PUBLIC_RELAY_PATH || '/relay';
+// How long the first device of a pair waits for the second, in milliseconds
+const RELAY_PAIR_TIMEOUT = 30000;
+// Largest relayed message, clients split bigger frames (RELAY_FRAGMENT_SIZE in src/lib/relayTransport.ts)
+const RELAY_MAX_FRAME = 256 * 1024;
+// Upper bound on devices waiting for their pair
+const RELAY_MAX_WAITING = 1000;
+// Connection IDs are PeerJS's "dc_" plus a random token
+const RELAY_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+function isPeerRequest(pathname) {
+  return pathname === peerPath || pathname.startsWith(`${peerPath}/`);
+}
+
+/**
+ * Pair relay sockets by connection ID and forward frames between the two.
+ * Apart from the key exchange, which only carries public keys, the frames are
+ * encrypted by the devices and the relay cannot read them.
+ * @param {WebSocketServer} relaySocketServer Server accepting relay sockets
+ */
+function handleRelay(relaySocketServer) {
+  // First socket of each pair, keyed by connection ID
+  const waiting = new Map();
+
+  relaySocketServer.on('connection', (ws, req) => {
+    const id = new URL(req.url, 'http://relay').searchParams.get('id') || '';
+    if (!RELAY_ID_PATTERN.test(id) || (!waiting.has(id) && waiting.size >= RELAY_MAX_WAITING)) {
+      ws.close(1008, 'Invalid or too many relay requests');
+      return;
+    }
+
+    const first = waiting.get(id);
+    if (!first) {
+      const timer = setTimeout(() => {
+        waiting.delete(id);
+        ws.close(1000, 'No other device');
+      }, RELAY_PAIR_TIMEOUT);
+      waiting.set(id, { ws, timer });
+      ws.on('close', () => {
+        if (waiting.get(id)?.ws === ws) {
+          clearTimeout(timer);
+          waiting.delete(id);
+        }
+      });
+      return;
+    }
+
+    // A third socket with the same ID finds no waiting entry and starts a new pair, which times out
+    clearTimeout(first.timer);
+    waiting.delete(id);
+    const pair = [first.ws, ws];
+    pair.forEach((socket, index) => {
+      const other = pair[1 - index];
+      socket.on('message', (data, isBinary) => {
+        if (isBinary && other.readyState === other.OPEN) other.send(data, { binary: true });
+      });
+      socket.on('close', () => other.close(1000, 'Other device left'));
+      socket.send('paired');
+    });
+    console.log('Relay paired:', id);
+  });
+}
+
+// API routes read the client address from X-Forwarded-For, counting this server as one hop
+// (see src/lib/clientAddress.ts). Proxies in front of it are set with TRUSTED_PROXY_HOPS.
+process.env.SERVER_APPENDS_CLIENT_ADDRESS = 'true';
+
+const app = next({ dev, hostname, port });
+const handle = app.getRequestHandler();
+
+app.prepare().then(() => {
+  const expressApp = express();
+  const server = createServer(expressApp);
+  let peerSocketServer = null;
+  const relaySocketServer = new WebSocketServer({ noServer: true, maxPayload: RELAY_MAX_FRAME });
+  handleRelay(relaySocketServer);
+
+  // Only take over upgrades for the broker and the relay, Next.js handles the rest (e.g. HMR in development)
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = parse(req.url);
+    if (pathname === relayPath) {
+      relaySocketServer.handleUpgrade(req, socket, head, (ws) => {
+        relaySocketServer.emit('connection', ws, req);
+      });
+      return;
+    }
+    if (!isPeerRequest(pathname || '/') || !peerSocketServer || !peerSocketServer.shouldHandle(req)) return;
+
+    peerSocketServer.handleUpgrade(req, socket, head, (ws) => {
+      peerSocketServer.emit('connection', ws, req);
+    });
+  });
+
+  const peerServer = ExpressPeerServer(server, {
+    path: '/',
+    key: peerKey,
+    allow_discovery: false,
+    createWebSocketServer: (options) => {
+      peerSocketServer = new WebSocketServer({ noServer: true, path: options.path });
+      return peerSocketServer;
+    }
+  });
+
+  expressApp.use(peerPath, peerServer);
+  expressApp.all('*', (req, res) => {
+    // Append the address the request reached us from, like a proxy would. Entries
+    // before it are only trusted as far as TRUSTED_PROXY_HOPS says.
+    const forwardedFor = req.headers['x-forwarded-for'];
+    const remoteAddress = req.socket.remoteAddress || 'unknown';
+    req.headers['x-forwarded-for'] = forwardedFor ? `${forwardedFor}, ${remoteAddress}` : remoteAddress;
+    handle(req, res, parse(req.url, true));
+  });
+
+  peerServer.on('connection', (client) => {
+    console.log('Peer registered:', client.getId());
+  });
+
+  peerServer.on('disconnect', (client) => {
+    console.log('Peer left:', client.getId());
+  });
+
+  server.listen(port, hostname, () => {
+    console.log(`> Ready on http://${hostname}:${port}`);
+    console.log(`> PeerJS signaling on ${peerPath}`);
+    console.log(`> WebSocket relay on ${relayPath}`);
+  });
+}).catch((err) => {
+  console.error('Failed to start server:', err);
+  process.exit(1);
+});
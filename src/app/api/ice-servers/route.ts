@@ -0,0 +1,62 @@
+import { createHmac } from 'crypto';
+import { NextResponse } from 'next/server';
+import { DEFAULT_ICE_SERVERS, IceConfigResponse } from '@/lib/iceConfig';
+
+// Credentials are minted per request, never cache the response
+export const dynamic = 'force-dynamic';
+
+// Default lifetime of time-limited TURN credentials, in seconds
+const DEFAULT_TURN_TTL = 86400;
+
+/**
+ * Split a comma separated list of ICE URLs
+ * @param value Environment variable value
+ * @returns Trimmed, non-empty URLs
+ */
+function parseUrls(value: string): string[] {
+  return value.split(',').map(url => url.trim()).filter(Boolean);
+}
+
+/**
+ * Create TURN REST API credentials (as used by coturn's use-auth-secret):
+ * the username carries the expiry time and the password is an HMAC of it
+ * @param secret Secret shared with the TURN server
+ * @param ttl Lifetime in seconds
+ * @returns Username and credential
+ */
+function createTurnCredentials(secret: string, ttl: number) {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+  const username = `${expiresAt}:transferfiles`;
+  const credential = createHmac('sha1', secret).update(username).digest('base64');
+  return { username, credential };
+}
+
+export async function GET() {
+  // An empty ICE_STUN_URLS disables STUN, e.g. on an isolated network
+  const stunUrls = process.env.ICE_STUN_URLS !== undefined
+    ? parseUrls(process.env.ICE_STUN_URLS)
+    : null;
+  const iceServers: RTCIceServer[] = stunUrls
+    ? stunUrls.map(urls => ({ urls }))
+    : [...DEFAULT_ICE_SERVERS];
+  const response: IceConfigResponse = { iceServers };
+
+  const turnUrls = parseUrls(process.env.TURN_URLS || '');
+  if (turnUrls.length > 0) {
+    if (process.env.TURN_SECRET) {
+      const ttl = parseInt(process.env.TURN_TTL || '', 10) || DEFAULT_TURN_TTL;
+      iceServers.push({ urls: turnUrls, ...createTurnCredentials(process.env.TURN_SECRET, ttl) });
+      response.ttl = ttl;
+    } else {
+      iceServers.push({
+        urls: turnUrls,
+        username: process.env.TURN_USERNAME,
+        credential: process.env.TURN_CREDENTIAL
+      });
+    }
+  }
+
+  return NextResponse.json(response, {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
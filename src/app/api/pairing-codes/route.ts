@@ -0,0 +1,145 @@
+import { randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  PAIRING_CODE_LENGTH,
+  PAIRING_CODE_TTL,
+  PairingCodeResponse,
+  PairingCodeLookupResponse,
+  normalizePairingCode
+} from '@/lib/pairingCode';
+import { getClientAddress } from '@/lib/clientAddress';
+
+// Codes change all the time, never cache the responses
+export const dynamic = 'force-dynamic';
+
+// Upper bound on live codes, keeps the registry small
+const MAX_CODES = 100000;
+
+// Lookups allowed per client and minute, makes guessing codes impractical
+const MAX_LOOKUPS_PER_MINUTE = 20;
+
+// Lookups allowed per code and minute when the client address is unknown, e.g. under
+// plain `next start`; pooling those clients would let one of them lock out everyone
+const MAX_LOOKUPS_PER_CODE = 5;
+
+// Characters PeerJS accepts in an ID
+const PEER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+interface RegisteredCode {
+  peerId: string;
+  expiresAt: number;
+  // Secret returned to whoever registered the code, needed to replace it
+  token: string;
+}
+
+// Kept on globalThis so codes survive module reloads in development.
+// The registry lives in memory: run a single server instance, or point
+// NEXT_PUBLIC_PAIRING_CODE_URL at a shared registry.
+const registry = globalThis as typeof globalThis & {
+  pairingCodes?: Map<string, RegisteredCode>;
+  pairingCodeLookups?: Map<string, number[]>;
+};
+const codes = registry.pairingCodes ??= new Map<string, RegisteredCode>();
+const lookups = registry.pairingCodeLookups ??= new Map<string, number[]>();
+
+function removeExpiredCodes(now: number) {
+  codes.forEach((entry, code) => {
+    if (entry.expiresAt <= now) codes.delete(code);
+  });
+}
+
+/**
+ * Check a replace token against the one a code was registered with
+ * @param entry Registered code
+ * @param token Token sent by the caller
+ * @returns Whether the caller registered the code
+ */
+function isOwnToken(entry: RegisteredCode, token: unknown): boolean {
+  if (typeof token !== 'string' || token.length !== entry.token.length) return false;
+  return timingSafeEqual(Buffer.from(token), Buffer.from(entry.token));
+}
+
+/**
+ * Count a lookup for a client or a code
+ * @param key Client address, or the code looked up when the address is unknown
+ * @param limit Lookups allowed per minute
+ * @param now Current time
+ * @returns Whether the key is still below the limit
+ */
+function allowLookup(key: string, limit: number, now: number): boolean {
+  if (lookups.size > MAX_CODES) {
+    lookups.forEach((times, key) => {
+      if (times[times.length - 1] <= now - 60000) lookups.delete(key);
+    });
+  }
+  const recent = (lookups.get(key) || []).filter(time => time > now - 60000);
+  if (recent.length >= limit) {
+    lookups.set(key, recent);
+    return false;
+  }
+  recent.push(now);
+  lookups.set(key, recent);
+  return true;
+}
+
+// Register a code for a peer ID. An earlier code is only removed when the
+// caller proves it registered it, so nobody can cancel another device's code.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const peerId = body?.peerId;
+  if (typeof peerId !== 'string' || !PEER_ID_PATTERN.test(peerId)) {
+    return NextResponse.json({ error: 'Invalid peer ID' }, { status: 400 });
+  }
+
+  const now = Date.now();
+  removeExpiredCodes(now);
+  const replaces = body.replaces;
+  const previous = typeof replaces?.code === 'string' ? codes.get(replaces.code) : undefined;
+  if (previous && isOwnToken(previous, replaces.token)) {
+    codes.delete(replaces.code);
+  }
+  if (codes.size >= MAX_CODES) {
+    return NextResponse.json({ error: 'Too many pairing codes' }, { status: 503 });
+  }
+
+  let code: string;
+  do {
+    code = randomInt(0, 10 ** PAIRING_CODE_LENGTH).toString().padStart(PAIRING_CODE_LENGTH, '0');
+  } while (codes.has(code));
+
+  const expiresAt = now + PAIRING_CODE_TTL * 1000;
+  const token = randomBytes(16).toString('hex');
+  codes.set(code, { peerId, expiresAt, token });
+  const response: PairingCodeResponse = { code, expiresAt, token };
+  return NextResponse.json(response, {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
+
+// Look up the peer ID behind a code
+export async function GET(request: NextRequest) {
+  const now = Date.now();
+  const code = normalizePairingCode(request.nextUrl.searchParams.get('code') || '');
+  if (!code) {
+    return NextResponse.json({ error: 'Unknown or expired pairing code' }, { status: 404 });
+  }
+
+  // Without a trusted address each code gets its own small budget, so rotating headers does not help
+  const client = getClientAddress(request);
+  const allowed = client
+    ? allowLookup(`client:${client}`, MAX_LOOKUPS_PER_MINUTE, now)
+    : allowLookup(`code:${code}`, MAX_LOOKUPS_PER_CODE, now);
+  if (!allowed) {
+    return NextResponse.json({ error: 'Too many attempts, try again in a minute' }, { status: 429 });
+  }
+
+  const entry = codes.get(code);
+  if (!entry || entry.expiresAt <= now) {
+    return NextResponse.json({ error: 'Unknown or expired pairing code' }, { status: 404 });
+  }
+
+  const response: PairingCodeLookupResponse = { peerId: entry.peerId };
+  return NextResponse.json(response, {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PRESENCE_TTL, PresenceResponse } from '@/lib/discovery';
+import { getClientAddress } from '@/lib/clientAddress';
+
+// Presence changes all the time, never cache the responses
+export const dynamic = 'force-dynamic';
+
+// Upper bound on listed devices, keeps the registry small
+const MAX_DEVICES = 100000;
+
+// Devices listed per group at most
+const MAX_GROUP_SIZE = 50;
+
+const PEER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_NAME_LENGTH = 40;
+const MAX_ROOM_LENGTH = 64;
+
+interface PresenceEntry {
+  peerId: string;
+  name: string;
+  group: string;
+  expiresAt: number;
+}
+
+// Kept on globalThis so presence survives module reloads in development
+const registry = globalThis as typeof globalThis & {
+  presence?: Map<string, PresenceEntry>;
+};
+const devices = registry.presence ??= new Map<string, PresenceEntry>();
+
+/**
+ * Check whether an address belongs to a private or loopback range
+ * @param address IPv4 or IPv6 address
+ * @returns Whether the client reached us from inside the network
+ */
+function isPrivateAddress(address: string): boolean {
+  return /^(10\.|127\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.|169\.254\.)/.test(address) ||
+    address === '::1' || /^f[cd]/i.test(address) || /^fe80:/i.test(address);
+}
+
+/**
+ * Work out which devices see each other
+ * @param request Incoming request
+ * @param room Room name, if the device picked one
+ * @returns Group key, or null when the network cannot be told
+ */
+function getGroup(request: NextRequest, room: string): string | null {
+  if (room) return `room:${room.toLowerCase()}`;
+  const address = getClientAddress(request);
+  if (!address) return null;
+  // Devices reaching a self-hosted server on its LAN have different private addresses but one network
+  return isPrivateAddress(address) ? 'lan' : `ip:${address}`;
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const peerId = body?.peerId;
+  if (typeof peerId !== 'string' || !PEER_ID_PATTERN.test(peerId)) {
+    return NextResponse.json({ error: 'Invalid peer ID' }, { status: 400 });
+  }
+  const room = typeof body.room === 'string' ? body.room.trim().slice(0, MAX_ROOM_LENGTH) : '';
+  const group = getGroup(request, room);
+  if (!group) {
+    return NextResponse.json({ error: 'Cannot tell your network, use a room name' }, { status: 400 });
+  }
+
+  const now = Date.now();
+  devices.forEach((entry, id) => {
+    if (entry.expiresAt <= now) devices.delete(id);
+  });
+
+  // Only the group the device is in may remove it
+  if (body.leave) {
+    if (devices.get(peerId)?.group === group) devices.delete(peerId);
+    return NextResponse.json({ devices: [] });
+  }
+
+  if (!devices.has(peerId) && devices.size >= MAX_DEVICES) {
+    return NextResponse.json({ error: 'Too many devices' }, { status: 503 });
+  }
+  const name = typeof body.name === 'string' && body.name.trim()
+    ? body.name.trim().slice(0, MAX_NAME_LENGTH)
+    : 'Unknown device';
+  devices.set(peerId, { peerId, name, group, expiresAt: now + PRESENCE_TTL * 1000 });
+
+  const response: PresenceResponse = { devices: [] };
+  devices.forEach(entry => {
+    if (entry.group === group && entry.peerId !== peerId && response.devices.length < MAX_GROUP_SIZE) {
+      response.devices.push({ peerId: entry.peerId, name: entry.name });
+    }
+  });
+  return NextResponse.json(response, {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { loadIceServers, getRouteLabel } from "@/lib/iceConfig";
+import {
+  CheckStatus,
+  DiagnosticsReport,
+  DiagnosticsStep,
+  runDiagnostics,
+  formatDiagnosticsReport,
+  getNatLabel
+} from "@/lib/diagnostics";
+
+const STEP_TEXT: Record<DiagnosticsStep, string> = {
+  broker: "Contacting the signaling server...",
+  ice: "Gathering ICE candidates...",
+  loopback: "Testing a loopback data channel...",
+  live: "Reading open connections from other tabs..."
+};
+
+const STATUS_TEXT: Record<CheckStatus, string> = {
+  pass: "OK",
+  warn: "Warning",
+  fail: "Failed"
+};
+
+/**
+ * Status badge of a check
+ * @param props Check status
+ */
+function StatusBadge({ status }: { status: CheckStatus }) {
+  return <span className={`diagnostics-badge diagnostics-${status}`}>{STATUS_TEXT[status]}</span>;
+}
+
+export default function Diagnostics() {
+  const [step, setStep] = useState<DiagnosticsStep | null>(null);
+  const [report, setReport] = useState<DiagnosticsReport | null>(null);
+  const [copyText, setCopyText] = useState<string>("Copy report");
+
+  const handleRun = async () => {
+    setReport(null);
+    setStep("broker");
+    try {
+      const iceServers = await loadIceServers();
+      setReport(await runDiagnostics(iceServers, setStep));
+    } finally {
+      setStep(null);
+    }
+  };
+
+  const handleCopy = () => {
+    if (!report) return;
+    navigator.clipboard.writeText(formatDiagnosticsReport(report))
+      .then(() => {
+        setCopyText("Copied!");
+        setTimeout(() => setCopyText("Copy report"), 2000);
+      })
+      .catch(err => {
+        console.error("Copying the report failed:", err);
+        setCopyText("Copy failed, select the text below");
+      });
+  };
+
+  return (
+    <main className="app-content">
+      <section className="page-content">
+        <div className="page-container">
+          <h1>Connection Diagnostics</h1>
+
+          <p>
+            If devices cannot connect or the connection times out, run these checks on each device and
+            attach the report to your support request. Keep the TransferFiles tab with the connection
+            open to include its statistics.
+          </p>
+
+          <div className="diagnostics-actions">
+            <button className="btn" onClick={handleRun} disabled={step !== null}>
+              {report ? "Run again" : "Run diagnostics"}
+            </button>
+            {report && (
+              <button className="btn-secondary" onClick={handleCopy}>{copyText}</button>
+            )}
+          </div>
+
+          {step && (
+            <p className="diagnostics-progress">{STEP_TEXT[step]}</p>
+          )}
+
+          {report && (
+            <div className="diagnostics-results">
+              <div className="diagnostics-check">
+                <h3>Signaling server <StatusBadge status={report.broker.status} /></h3>
+                <p>
+                  {report.broker.error
+                    ? report.broker.error
+                    : `Reached ${report.broker.url} in ${report.broker.latency} ms`}
+                </p>
+              </div>
+
+              <div className="diagnostics-check">
+                <h3>ICE candidates <StatusBadge status={report.ice.status} /></h3>
+                <p>
+                  NAT type: <strong>{getNatLabel(report.ice.nat)}</strong>
+                  {report.ice.timedOut && " (gathering timed out)"}
+                </p>
+                {report.ice.error && <p>{report.ice.error}</p>}
+                <ul className="diagnostics-candidates">
+                  {report.ice.candidates.map((candidate, index) => (
+                    <li key={index}>
+                      {candidate.type} {candidate.protocol} {candidate.address}:{candidate.port}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="diagnostics-check">
+                <h3>Loopback data channel <StatusBadge status={report.loopback.status} /></h3>
+                <p>
+                  {report.loopback.error
+                    ? report.loopback.error
+                    : `Data channel opened, round trip ${report.loopback.rtt} ms`}
+                </p>
+              </div>
+
+              <div className="diagnostics-check">
+                <h3>Live connections</h3>
+                {!report.live.supported && <p>This browser cannot read connections from other tabs.</p>}
+                {report.live.supported && report.live.connections.length === 0 && (
+                  <p>No open connections found in other TransferFiles tabs.</p>
+                )}
+                <ul className="diagnostics-candidates">
+                  {report.live.connections.map(connection => (
+                    <li key={connection.peerId}>
+                      {connection.peerId}: {connection.route ? getRouteLabel(connection.route) : "route unknown"}
+                      {connection.rtt !== null && `, round trip ${connection.rtt} ms`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <h2>Report</h2>
+              <p>The report contains your IP addresses, only share it with people you trust.</p>
+              <textarea className="diagnostics-report" readOnly value={formatDiagnosticsReport(report)} />
+            </div>
+          )}
+
+          <div className="page-links">
+            <Link href="/" className="btn-back">Return to Home</Link>
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
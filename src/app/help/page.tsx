@@ -173,6 +173,9 @@ export default function Help() {
                   <li>
                     <Link href="/guide">User Guide</Link>
                   </li>
+                  <li>
+                    <Link href="/diagnostics">Connection Diagnostics</Link>
+                  </li>
                   <li>
                     <Link href="/security">Security Information</Link>
                   </li>
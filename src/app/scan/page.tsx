@@ -14,9 +14,10 @@ function ScanContent() {
     if (connectId) {
       setStatus('Connection ID: ' + connectId);
       
-      // Redirect to home page with connection parameter after short delay
+      // Redirect to home page with connection parameter after short delay,
+      // keeping the fragment which may carry the session passphrase
       const timeout = setTimeout(() => {
-        router.push(`/?connect=${connectId}`);
+        router.push(`/?connect=${connectId}${window.location.hash}`);
       }, 1500);
       
       return () => clearTimeout(timeout);
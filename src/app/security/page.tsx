@@ -63,6 +63,20 @@ export default function Security() {
                 compromised in the future.
               </li>
             </ul>
+            <h3>Application-Level Encryption</h3>
+            <p>
+              On top of WebRTC&apos;s built-in encryption, TransferFiles encrypts every message and file chunk 
+              inside the browser. When two devices connect they exchange ECDH keys directly over the data 
+              connection and derive a fresh AES-GCM key for the session, so the signaling server never sees 
+              a key that could decrypt your data.
+            </p>
+            <p>
+              Both devices then display the same short emoji security code. Compare the codes on the two 
+              screens: if they match, nobody is intercepting the connection. If they differ, disconnect 
+              immediately. Each device commits to its key before seeing the other&apos;s, so an attacker 
+              cannot search for keys that produce matching codes and has about a one in a billion chance 
+              per connection attempt.
+            </p>
           </div>
           
           <div className="security-section">
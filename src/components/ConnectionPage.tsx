@@ -1,14 +1,15 @@
 "use client";
 
 import { useState, useEffect, useRef } from 'react';
+import { ConnectionState, describeConnectionState, getStatusClassName } from '@/lib/connectionState';
 
 interface ConnectionPageProps {
   myPeerId: string;
-  connectionStatus: string;
+  connectionState: ConnectionState;
   onConnect: (peerId: string) => void;
 }
 
-export default function ConnectionPage({ myPeerId, connectionStatus, onConnect }: ConnectionPageProps) {
+export default function ConnectionPage({ myPeerId, connectionState, onConnect }: ConnectionPageProps) {
   const [peerIdInput, setPeerIdInput] = useState('');
   const [copyBtnText, setCopyBtnText] = useState('Copy');
   const qrcodeRef = useRef<HTMLCanvasElement>(null);
@@ -86,14 +87,6 @@ export default function ConnectionPage({ myPeerId, connectionStatus, onConnect }
     }
   };
 
-  // Generate status class name
-  const getStatusClassName = () => {
-    if (connectionStatus.includes('Connected')) return 'status-connected';
-    if (connectionStatus.includes('Error') || connectionStatus.includes('Failed')) return 'status-error';
-    if (connectionStatus.includes('Connecting')) return 'status-connecting';
-    return '';
-  };
-
   return (
     <div className="connection-panel">
       <div className="connection-info">
@@ -151,9 +144,9 @@ export default function ConnectionPage({ myPeerId, connectionStatus, onConnect }
         </div>
       </div>
       
-      <div className={`status-indicator ${getStatusClassName()}`}>
+      <div className={`status-indicator ${getStatusClassName(connectionState)}`}>
         <div className="status-icon"></div>
-        <p>Status: <span id="connection-status">{connectionStatus}</span></p>
+        <p>Status: <span id="connection-status">{describeConnectionState(connectionState)}</span></p>
       </div>
     </div>
   );
@@ -2,22 +2,91 @@
 
 import { useState, useEffect, useRef } from 'react';
 import QRCode from 'qrcode';
+import { showToast } from '@/utils/helpers';
+import { TrustedDevice, getDefaultDeviceName } from '@/lib/deviceIdentity';
+import { isDiscoveryEnabled, setDiscoveryEnabled, getDiscoveryRoom, setDiscoveryRoom } from '@/lib/discovery';
+import useNearbyDevices from '@/hooks/useNearbyDevices';
+import { registerPairingCode, formatPairingCode, PairingCodeResponse } from '@/lib/pairingCode';
+import {
+  ConnectionState,
+  describeConnectionState,
+  getStatusClassName,
+  getRecoveryAction
+} from '@/lib/connectionState';
 
 interface ConnectionPanelProps {
   myPeerId: string;
-  connectionStatus: string;
+  connectionState: ConnectionState;
+  // Dial the peer of a failed connection again
+  onRetry: () => void;
+  securityCode: string;
+  passphrase: string;
+  onPassphraseChange: (passphrase: string) => void;
+  passphraseRequired: boolean;
+  onSubmitPassphrase: (passphrase: string) => void;
+  roomMode: boolean;
+  onRoomModeChange: (enabled: boolean) => void;
+  // Name of this device, null while it does not remember paired devices
+  deviceName: string | null;
+  onRememberDeviceChange: (enabled: boolean) => void;
+  onRenameDevice: (name: string) => void;
+  trustedDevices: TrustedDevice[];
+  onForgetDevice: (peerId: string) => void;
   onConnect: (peerId: string) => void;
 }
 
-export default function ConnectionPanel({ myPeerId, connectionStatus, onConnect }: ConnectionPanelProps) {
+export default function ConnectionPanel({
+  myPeerId,
+  connectionState,
+  onRetry,
+  securityCode,
+  passphrase,
+  onPassphraseChange,
+  passphraseRequired,
+  onSubmitPassphrase,
+  roomMode,
+  onRoomModeChange,
+  deviceName,
+  onRememberDeviceChange,
+  onRenameDevice,
+  trustedDevices,
+  onForgetDevice,
+  onConnect
+}: ConnectionPanelProps) {
   const [peerIdInput, setPeerIdInput] = useState('');
   const [copyBtnText, setCopyBtnText] = useState('Copy');
+  const [includePassphraseInLink, setIncludePassphraseInLink] = useState(false);
+  const [deviceNameInput, setDeviceNameInput] = useState(deviceName || '');
+  // Short code standing in for our peer ID, requested on demand
+  const [pairingCode, setPairingCode] = useState<PairingCodeResponse | null>(null);
+  const [pairingCodeLoading, setPairingCodeLoading] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  // Nearby device discovery, settings are loaded once mounted
+  const [discoveryEnabled, setDiscoveryEnabledState] = useState(false);
+  const [discoveryRoom, setDiscoveryRoomState] = useState('');
+  const [discoveryRoomInput, setDiscoveryRoomInput] = useState('');
+  const [defaultDeviceName, setDefaultDeviceName] = useState('');
+  const nearby = useNearbyDevices({
+    peerId: myPeerId,
+    name: deviceName || defaultDeviceName,
+    room: discoveryRoom,
+    enabled: discoveryEnabled
+  });
   const qrcodeRef = useRef<HTMLCanvasElement>(null);
 
+  useEffect(() => {
+    setDeviceNameInput(deviceName || '');
+  }, [deviceName]);
+
+  // The passphrase goes in the fragment, which browsers never send to the server.
+  // Left out, the link still says one is needed so the other device asks before connecting.
+  const linkFragment = includePassphraseInLink ? `#key=${encodeURIComponent(passphrase)}` : '#key-required';
+  const sharePath = `/scan?connect=${myPeerId}` + (passphrase ? linkFragment : '');
+
   // Generate QR code
   useEffect(() => {
     if (myPeerId && qrcodeRef.current) {
-      const scanUrl = `${window.location.origin}/scan?connect=${myPeerId}`;
+      const scanUrl = `${window.location.origin}${sharePath}`;
       QRCode.toCanvas(qrcodeRef.current, scanUrl, {
         width: 180,
         margin: 2,
@@ -27,8 +96,56 @@ export default function ConnectionPanel({ myPeerId, connectionStatus, onConnect
         }
       });
     }
+  }, [myPeerId, sharePath]);
+
+  useEffect(() => {
+    const room = getDiscoveryRoom();
+    setDiscoveryEnabledState(isDiscoveryEnabled());
+    setDiscoveryRoomState(room);
+    setDiscoveryRoomInput(room);
+    setDefaultDeviceName(getDefaultDeviceName());
+  }, []);
+
+  const handleDiscoveryChange = (enabled: boolean) => {
+    setDiscoveryEnabled(enabled);
+    setDiscoveryEnabledState(enabled);
+  };
+
+  const commitDiscoveryRoom = () => {
+    const room = discoveryRoomInput.trim();
+    setDiscoveryRoom(room);
+    setDiscoveryRoomState(room);
+  };
+
+  // A code points at one peer ID, drop it when the ID changes
+  useEffect(() => {
+    setPairingCode(null);
   }, [myPeerId]);
 
+  // Tick while a code is shown so its remaining time stays current
+  useEffect(() => {
+    if (!pairingCode) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [pairingCode]);
+
+  const pairingCodeExpired = pairingCode !== null && pairingCode.expiresAt <= now;
+  const recoveryAction = getRecoveryAction(connectionState);
+
+  const requestPairingCode = async () => {
+    if (!myPeerId) return;
+    setPairingCodeLoading(true);
+    try {
+      setPairingCode(await registerPairingCode(myPeerId, pairingCode));
+      setNow(Date.now());
+    } catch (err) {
+      console.error('Failed to get a pairing code:', err);
+      showToast('Could not get a short code, share your ID instead', true);
+    } finally {
+      setPairingCodeLoading(false);
+    }
+  };
+
   // Copy ID to clipboard
   const copyIdToClipboard = () => {
     if (myPeerId) {
@@ -51,6 +168,21 @@ export default function ConnectionPanel({ myPeerId, connectionStatus, onConnect
     }
   };
 
+  const commitDeviceName = () => {
+    const name = deviceNameInput.trim();
+    if (name && name !== deviceName) {
+      onRenameDevice(name);
+    } else {
+      setDeviceNameInput(deviceName || '');
+    }
+  };
+
+  const handlePassphraseKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && passphraseRequired) {
+      onSubmitPassphrase(passphrase);
+    }
+  };
+
   return (
     <div className="connection-panel">
       <h2>Connection Setup</h2>
@@ -68,10 +200,25 @@ export default function ConnectionPanel({ myPeerId, connectionStatus, onConnect
         </div>
       </div>
       
+      <div className="pairing-code">
+        {pairingCode && !pairingCodeExpired ? (
+          <>
+            <span className="pairing-code-value">{formatPairingCode(pairingCode.code)}</span>
+            <span className="pairing-code-expiry">
+              Short code, valid for {Math.ceil((pairingCode.expiresAt - now) / 60000)} min
+            </span>
+          </>
+        ) : (
+          <button className="btn-small" onClick={requestPairingCode} disabled={!myPeerId || pairingCodeLoading}>
+            {pairingCodeExpired ? 'Code expired, get a new one' : 'Get a short code to read out'}
+          </button>
+        )}
+      </div>
+      
       <div className="connect-section">
         <input 
           type="text" 
-          placeholder="Enter peer ID" 
+          placeholder="Enter peer ID or 6-digit code" 
           value={peerIdInput}
           onChange={(e) => setPeerIdInput(e.target.value)}
           onKeyDown={handleKeyDown}
@@ -79,6 +226,129 @@ export default function ConnectionPanel({ myPeerId, connectionStatus, onConnect
         <button className="btn" onClick={handleConnect}>Connect</button>
       </div>
       
+      <div className={`passphrase-section ${passphraseRequired ? 'passphrase-required' : ''}`}>
+        <label htmlFor="session-passphrase">
+          {passphraseRequired ? 'The other device requires a passphrase' : 'Session passphrase (optional)'}
+        </label>
+        <div className="connect-section">
+          <input
+            type="password"
+            id="session-passphrase"
+            placeholder={passphraseRequired ? 'Enter passphrase' : 'Only devices that know it can connect'}
+            value={passphrase}
+            onChange={(e) => onPassphraseChange(e.target.value)}
+            onKeyDown={handlePassphraseKeyDown}
+          />
+          {passphraseRequired && (
+            <button className="btn" onClick={() => onSubmitPassphrase(passphrase)} disabled={!passphrase}>Submit</button>
+          )}
+        </div>
+        {passphrase && !passphraseRequired && (
+          <label className="passphrase-link-option">
+            <input
+              type="checkbox"
+              checked={includePassphraseInLink}
+              onChange={(e) => setIncludePassphraseInLink(e.target.checked)}
+            />
+            Include passphrase in QR code and link
+          </label>
+        )}
+      </div>
+      
+      <label className="room-mode-option">
+        <input
+          type="checkbox"
+          checked={roomMode}
+          onChange={(e) => onRoomModeChange(e.target.checked)}
+        />
+        Room mode: let several devices join and send to all of them
+      </label>
+      
+      <div className="nearby-devices">
+        <h3>Nearby devices</h3>
+        <label className="discovery-option">
+          <input
+            type="checkbox"
+            checked={discoveryEnabled}
+            onChange={(e) => handleDiscoveryChange(e.target.checked)}
+          />
+          Show devices on my network, and show this device to them
+        </label>
+        {discoveryEnabled && (
+          <>
+            <div className="discovery-room">
+              <input
+                type="text"
+                placeholder="Room name (optional, for devices on other networks)"
+                value={discoveryRoomInput}
+                onChange={(e) => setDiscoveryRoomInput(e.target.value)}
+                onBlur={commitDiscoveryRoom}
+                onKeyDown={(e) => e.key === 'Enter' && commitDiscoveryRoom()}
+              />
+            </div>
+            {nearby.error ? (
+              <div className="device-hint">{nearby.error}</div>
+            ) : nearby.devices.length > 0 ? (
+              <div className="nearby-list">
+                {nearby.devices.map(device => (
+                  <button key={device.peerId} className="nearby-card" onClick={() => onConnect(device.peerId)}>
+                    <span className="nearby-icon">💻</span>
+                    <span className="nearby-name">{device.name}</span>
+                    <span className="nearby-id">{device.peerId.slice(0, 8)}</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="device-hint">
+                Looking for devices... open this page on another device with discovery on
+              </div>
+            )}
+          </>
+        )}
+      </div>
+      
+      <div className="my-devices">
+        <h3>My devices</h3>
+        <label className="remember-device-option">
+          <input
+            type="checkbox"
+            checked={deviceName !== null}
+            onChange={(e) => onRememberDeviceChange(e.target.checked)}
+          />
+          Remember this device, so paired devices can reconnect with one tap
+        </label>
+        {deviceName !== null && (
+          <div className="device-name">
+            <label htmlFor="device-name">This device's name</label>
+            <input
+              type="text"
+              id="device-name"
+              value={deviceNameInput}
+              onChange={(e) => setDeviceNameInput(e.target.value)}
+              onBlur={commitDeviceName}
+              onKeyDown={(e) => e.key === 'Enter' && commitDeviceName()}
+            />
+          </div>
+        )}
+        {trustedDevices.length > 0 ? (
+          <ul className="device-list">
+            {trustedDevices.map(device => (
+              <li key={device.peerId} className="device-item">
+                <button className="btn device-connect" onClick={() => onConnect(device.peerId)} disabled={!myPeerId}>
+                  {device.name}
+                </button>
+                <span className="device-last-seen">Last seen {new Date(device.lastSeen).toLocaleDateString()}</span>
+                <button className="btn-small" onClick={() => onForgetDevice(device.peerId)} title="Forget this device">✕</button>
+              </li>
+            ))}
+          </ul>
+        ) : deviceName !== null && (
+          <div className="device-hint">
+            Connect to another device that remembers itself too, then tap Remember next to it
+          </div>
+        )}
+      </div>
+      
       <div className="or-divider">
         <span>OR</span>
       </div>
@@ -87,18 +357,32 @@ export default function ConnectionPanel({ myPeerId, connectionStatus, onConnect
         <h3>Scan QR Code to Connect</h3>
         <canvas id="qrcode" ref={qrcodeRef}></canvas>
         <div className="share-url">
-          Or share link: <a href={`/scan?connect=${myPeerId}`} target="_blank">
-            {myPeerId ? `${window.location.origin}/scan?connect=${myPeerId}` : 'Generating...'}
+          Or share link: <a href={sharePath} target="_blank">
+            {myPeerId ? `${window.location.origin}${sharePath}` : 'Generating...'}
           </a>
         </div>
       </div>
       
-      <div className={`status-indicator ${connectionStatus.includes('Connected') ? 'status-connected' : 
-                                       connectionStatus.includes('Connecting') ? 'status-connecting' : 
-                                       connectionStatus.includes('Error') ? 'status-error' : ''}`}>
+      <div className={`status-indicator ${getStatusClassName(connectionState)}`}>
         <div className="status-icon"></div>
-        <div>Status: {connectionStatus}</div>
+        <div>Status: {describeConnectionState(connectionState)}</div>
+        {recoveryAction === 'retry' && (
+          <button className="btn-small status-action" onClick={onRetry}>Try again</button>
+        )}
+        {recoveryAction === 'reload' && (
+          <button className="btn-small status-action" onClick={() => window.location.reload()}>Reload page</button>
+        )}
+        {connectionState.status === 'failed' && (
+          <a className="status-diagnostics" href="/diagnostics" target="_blank" rel="noopener noreferrer">Diagnose</a>
+        )}
       </div>
+      
+      {securityCode && (
+        <div className="security-code" title="Both devices should show the same code. If they differ, disconnect.">
+          🔒 Security code: <span className="security-code-value">{securityCode}</span>
+          <div className="security-code-hint">Check that the other device shows the same code</div>
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
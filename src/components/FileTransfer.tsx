@@ -4,7 +4,15 @@ import { useState, useEffect, useRef } from 'react';
 import ConnectionPanel from './ConnectionPanel';
 import TransferPage from './TransferPage';
 import usePeerConnection from '@/hooks/usePeerConnection';
-import { formatFileSize, showToast } from '@/utils/helpers';
+import { formatFileSize, showToast, createItemId } from '@/utils/helpers';
+import { createIncomingFile, addChunk, isFileComplete, assembleFile, getContiguousOffset, verifyFileHash, IncomingFile } from '@/lib/fileReceiver';
+import { ACK_INTERVAL_CHUNKS, FileDescription } from '@/lib/transferProtocol';
+import { AppMessage } from '@/lib/protocol';
+import { isAutoAcceptPeer, setAutoAcceptPeer } from '@/lib/autoAccept';
+import { sanitizePath } from '@/lib/folderTransfer';
+import { shouldStreamToDisk, pickSaveTargets, openDiskSink, DiskSinkKind } from '@/lib/diskSink';
+import { addHistoryEntry } from '@/lib/transferHistory';
+import TransferHistory from './TransferHistory';
 
 interface FileItem {
   file: File;
@@ -17,45 +25,276 @@ interface ReceivedFile {
   url: string;
   type: string;
   id: string;
+  sha256: string;
+  verified: boolean;
+  peerId: string;
+  // Set for files that arrived as part of a folder
+  path?: string;
+  requestId?: string;
+  // Set when the file was streamed to disk instead of being kept in memory, url is empty then
+  savedTo?: DiskSinkKind;
+  // When the file arrived, Date.now()
+  receivedAt: number;
 }
 
 interface ReceivedText {
   content: string;
   timestamp: string;
   id: string;
+  peerId: string;
+}
+
+interface IncomingRequest {
+  requestId: string;
+  peerId: string;
+  files: FileDescription[];
+  totalSize: number;
+  status: 'pending' | 'accepted' | 'declined';
+  id: string;
+  // When the request arrived, Date.now()
+  receivedAt: number;
+}
+
+// A file the user agreed to receive
+interface AcceptedFile {
+  peerId: string;
+  requestId: string;
+  path?: string;
 }
 
 export default function FileTransfer() {
   // Initialize WebRTC connection
   const [receivedFiles, setReceivedFiles] = useState<ReceivedFile[]>([]);
   const [receivedTexts, setReceivedTexts] = useState<ReceivedText[]>([]);
+  const [incomingRequests, setIncomingRequests] = useState<IncomingRequest[]>([]);
+  // Connected peers whose files are accepted without asking
+  const [autoAcceptPeerIds, setAutoAcceptPeerIds] = useState<string[]>([]);
+  // Files the user agreed to receive, keyed by file ID; offers for anything else are ignored
+  const acceptedFilesRef = useRef<Map<string, AcceptedFile>>(new Map());
+  // Save locations picked for large accepted files, keyed by file ID
+  const saveTargetsRef = useRef<Map<string, FileSystemFileHandle>>(new Map());
+  
+  // Files whose chunks are still arriving, keyed by transfer ID.
+  // Kept across disconnects so an interrupted transfer can be resumed.
+  const incomingFilesRef = useRef<Map<string, IncomingFile>>(new Map());
+  // Sender of each file received in full, keyed by file ID, in case our final ack got lost
+  const finishedFilesRef = useRef<Map<string, { peerId: string; size: number }>>(new Map());
+  
+  // Tell the sender how much of a file has arrived without gaps
+  function acknowledge(incoming: IncomingFile) {
+    const peerId = acceptedFilesRef.current.get(incoming.fileId)?.peerId;
+    if (!peerId) return;
+    sendData({
+      type: 'file-ack',
+      fileId: incoming.fileId,
+      offset: getContiguousOffset(incoming)
+    }, [peerId]);
+  }
+  
+  // Give up on a file whose data could not be stored, and tell the sender to stop
+  function abandonIncomingFile(incoming: IncomingFile, peerId: string, err: unknown) {
+    if (incomingFilesRef.current.get(incoming.fileId) !== incoming) return;
+    console.error('Failed to save file:', incoming.name, err);
+    incomingFilesRef.current.delete(incoming.fileId);
+    acceptedFilesRef.current.delete(incoming.fileId);
+    incoming.sink?.abort();
+    showToast(`Failed to save file: ${incoming.name}`, true);
+    sendData({ type: 'file-cancel', fileId: incoming.fileId }, [peerId]);
+  }
+  
+  // Answer a transfer request and remember which files may be streamed
+  async function respondToRequest(request: IncomingRequest, accepted: boolean) {
+    if (accepted) {
+      // Pickers need the click that accepted the request, so they are opened before anything else
+      const largeFiles = request.files.filter(file => shouldStreamToDisk(file.size));
+      const targets = await pickSaveTargets(largeFiles.map(file => ({
+        fileId: file.fileId,
+        name: file.name,
+        path: file.path ? sanitizePath(file.path) || undefined : undefined
+      })));
+      targets.forEach((handle, fileId) => saveTargetsRef.current.set(fileId, handle));
+      
+      request.files.forEach(file => acceptedFilesRef.current.set(file.fileId, {
+        peerId: request.peerId,
+        requestId: request.requestId,
+        path: file.path ? sanitizePath(file.path) || undefined : undefined
+      }));
+    }
+    setIncomingRequests(prev => prev.map(item =>
+      item.requestId === request.requestId ? { ...item, status: accepted ? 'accepted' : 'declined' } : item
+    ));
+    sendData({
+      type: 'transfer-response',
+      requestId: request.requestId,
+      accepted
+    }, [request.peerId]);
+  }
   
   // Handle data received from peer
-  function handleReceivedData(data: any) {
-    if (data.type === 'file') {
-      // Create blob URL for file and add to received files list
-      const blob = new Blob([data.data], { type: data.dataType });
-      const url = URL.createObjectURL(blob);
+  function handleReceivedData(data: AppMessage, peerId: string) {
+    if (data.type === 'transfer-request') {
+      const request: IncomingRequest = {
+        requestId: data.requestId,
+        peerId,
+        files: data.files,
+        totalSize: data.totalSize,
+        status: 'pending',
+        id: createItemId(),
+        receivedAt: Date.now()
+      };
+      setIncomingRequests(prev => [...prev, request]);
+      
+      // Only a remembered device that proved its identity on this connection skips the prompt
+      if (isAutoAcceptPeer(peerId) && isVerifiedDevice(peerId)) {
+        respondToRequest(request, true);
+      } else {
+        showToast(`Incoming ${data.count} file(s), accept to receive`);
+      }
+    } else if (data.type === 'file-offer') {
+      const finished = finishedFilesRef.current.get(data.fileId);
+      if (data.resume && finished?.peerId === peerId) {
+        // The sender resumes because it missed our final ack, tell it everything arrived
+        sendData({ type: 'file-ack', fileId: data.fileId, offset: finished.size }, [peerId]);
+        return;
+      }
+      if (acceptedFilesRef.current.get(data.fileId)?.peerId !== peerId) {
+        console.warn('Ignoring offer for a file that was not accepted:', data.name);
+        return;
+      }
+      
+      let incoming = incomingFilesRef.current.get(data.fileId);
+      if (incoming) {
+        console.log('Resuming file:', incoming.name, 'from offset', getContiguousOffset(incoming));
+      } else {
+        // Large files go straight to disk, to the picked location or as a browser download
+        const sink = shouldStreamToDisk(data.size)
+          ? openDiskSink(data.name, data.size, data.dataType, saveTargetsRef.current.get(data.fileId))
+          : null;
+        saveTargetsRef.current.delete(data.fileId);
+        incoming = createIncomingFile(data, sink);
+        incomingFilesRef.current.set(data.fileId, incoming);
+      }
+      acknowledge(incoming);
+    } else if (data.type === 'file-chunk') {
+      const incoming = incomingFilesRef.current.get(data.fileId);
+      if (incoming && acceptedFilesRef.current.get(data.fileId)?.peerId === peerId) {
+        addChunk(incoming, data);
+        if (incoming.receivedChunks % ACK_INTERVAL_CHUNKS === 0) {
+          if (incoming.sink) {
+            // Acknowledge once the disk caught up, so a slow disk holds back the sender
+            incoming.sink.drain().then(
+              () => acknowledge(incoming),
+              (err) => abandonIncomingFile(incoming, peerId, err)
+            );
+          } else {
+            acknowledge(incoming);
+          }
+        }
+      }
+    } else if (data.type === 'file-complete') {
+      const incoming = incomingFilesRef.current.get(data.fileId);
+      const accepted = acceptedFilesRef.current.get(data.fileId);
+      if (!incoming || accepted?.peerId !== peerId) return;
       
-      const newFile = {
-        name: data.name,
-        size: data.size,
-        url,
-        type: data.dataType,
-        id: Date.now().toString()
+      if (!isFileComplete(incoming)) {
+        // Keep what we have, the sender can resume from the acknowledged offset
+        console.error('File incomplete:', incoming.name, `${incoming.receivedChunks}/${incoming.totalChunks} chunks`);
+        acknowledge(incoming);
+        return;
+      }
+      
+      acknowledge(incoming);
+      incomingFilesRef.current.delete(data.fileId);
+      acceptedFilesRef.current.delete(data.fileId);
+      finishedFilesRef.current.set(data.fileId, { peerId, size: incoming.size });
+      
+      // Compare against the sender's hash before the file can be downloaded
+      const verified = verifyFileHash(incoming, data.sha256 || '');
+      
+      const newFile: ReceivedFile = {
+        name: incoming.name,
+        size: incoming.size,
+        url: '',
+        type: incoming.type,
+        id: createItemId(),
+        sha256: data.sha256,
+        verified,
+        peerId,
+        path: accepted.path,
+        requestId: accepted.requestId,
+        receivedAt: Date.now()
+      };
+      
+      const historyEntry = {
+        peerId,
+        direction: 'received' as const,
+        kind: 'file' as const,
+        content: incoming.name,
+        size: incoming.size,
+        type: incoming.type,
+        path: accepted.path,
+        verified
       };
       
+      if (!verified) {
+        console.error('SHA-256 mismatch for', incoming.name, 'expected', data.sha256);
+        showToast(`Integrity check failed: ${incoming.name}`, true);
+      }
+      
+      const sink = incoming.sink;
+      if (sink) {
+        // Don't leave corrupted data on disk
+        if (!verified) {
+          sink.abort();
+          setReceivedFiles(prev => [...prev, newFile]);
+          addHistoryEntry(historyEntry);
+          return;
+        }
+        sink.close().then(() => {
+          setReceivedFiles(prev => [...prev, { ...newFile, savedTo: sink.kind }]);
+          addHistoryEntry(historyEntry);
+          showToast(`Saved file: ${newFile.name}`);
+        }).catch((err) => {
+          console.error('Failed to save file:', newFile.name, err);
+          showToast(`Failed to save file: ${newFile.name}`, true);
+        });
+        return;
+      }
+      
+      // Create blob URL for file and add to received files list
+      const blob = assembleFile(incoming);
+      newFile.url = URL.createObjectURL(blob);
+      
       setReceivedFiles(prev => [...prev, newFile]);
-      showToast(`Received file: ${data.name}`);
+      // Only intact files are worth keeping
+      addHistoryEntry(historyEntry, verified ? blob : undefined);
+      if (verified) {
+        showToast(`Received file: ${incoming.name}`);
+      }
+    } else if (data.type === 'file-cancel') {
+      const accepted = acceptedFilesRef.current.get(data.fileId);
+      if (accepted?.peerId !== peerId) return;
+      
+      // Drop the partial data, the sender will not finish this file
+      const incoming = incomingFilesRef.current.get(data.fileId);
+      incomingFilesRef.current.delete(data.fileId);
+      acceptedFilesRef.current.delete(data.fileId);
+      saveTargetsRef.current.delete(data.fileId);
+      if (incoming) {
+        incoming.sink?.abort();
+        showToast(`Transfer cancelled by sender: ${incoming.name}`);
+      }
     } else if (data.type === 'text') {
       // Add received text message
       const newText = {
         content: data.content,
         timestamp: new Date(data.timestamp).toLocaleString(),
-        id: Date.now().toString()
+        id: createItemId(),
+        peerId
       };
       
       setReceivedTexts(prev => [...prev, newText]);
+      addHistoryEntry({ peerId, direction: 'received', kind: 'text', content: data.content });
       showToast('Received new message');
     }
   }
@@ -63,54 +302,117 @@ export default function FileTransfer() {
   // Handle WebRTC connection
   const { 
     myPeerId, 
-    connectionStatus, 
-    connection, 
+    connectionState,
+    retryConnection,
     connected,
+    participants,
+    roomMode,
+    setRoomMode,
     connectToPeer, 
     sendData,
-    disconnect
+    requestFileTransfer,
+    sendFile,
+    transfers,
+    queue,
+    pauseTransfers,
+    resumePausedTransfers,
+    cancelTransfers,
+    moveTransfer,
+    clearFinishedTransfers,
+    securityCode,
+    sessionPassphrase,
+    setSessionPassphrase,
+    passphraseRequired,
+    submitPassphrase,
+    disconnect,
+    disconnectPeer,
+    deviceIdentity,
+    setRememberDevice,
+    renameDevice,
+    trustedDevices,
+    trustDevice,
+    forgetDevice,
+    isVerifiedDevice
   } = usePeerConnection({
     onData: handleReceivedData
   });
 
-  // Clean up connections when component unmounts
+  // Load the auto-accept setting of each connected peer
+  useEffect(() => {
+    setAutoAcceptPeerIds(participants.map(p => p.peerId).filter(isAutoAcceptPeer));
+  }, [participants]);
+
+  const handleAutoAcceptChange = (peerId: string, enabled: boolean) => {
+    setAutoAcceptPeer(peerId, enabled);
+    setAutoAcceptPeerIds(prev => enabled ? [...prev, peerId] : prev.filter(id => id !== peerId));
+  };
+
+  // Release received file URLs when the page goes away; earlier files stay
+  // downloadable and zippable for as long as the page is open
+  const receivedFilesRef = useRef<ReceivedFile[]>([]);
+  receivedFilesRef.current = receivedFiles;
   useEffect(() => {
     return () => {
-      // Clean up received file URLs to prevent memory leaks
-      receivedFiles.forEach(file => {
+      receivedFilesRef.current.forEach(file => {
         if (file.url) {
           URL.revokeObjectURL(file.url);
         }
       });
     };
-  }, [receivedFiles]);
-
-  // Replace connection status with English descriptions
-  const getEnglishConnectionStatus = (status: string) => {
-    // The connectionStatus is already in English from the usePeerConnection hook
-    return status;
-  };
-
-  const translatedStatus = getEnglishConnectionStatus(connectionStatus);
+  }, []);
 
   return (
     <div className="transfer-wrapper">
       {!connected ? (
         <ConnectionPanel 
           myPeerId={myPeerId} 
-          connectionStatus={translatedStatus}
+          connectionState={connectionState}
+          onRetry={retryConnection}
+          securityCode={securityCode}
+          passphrase={sessionPassphrase}
+          onPassphraseChange={setSessionPassphrase}
+          passphraseRequired={passphraseRequired}
+          onSubmitPassphrase={submitPassphrase}
+          roomMode={roomMode}
+          onRoomModeChange={setRoomMode}
+          deviceName={deviceIdentity ? deviceIdentity.name : null}
+          onRememberDeviceChange={setRememberDevice}
+          onRenameDevice={renameDevice}
+          trustedDevices={trustedDevices}
+          onForgetDevice={forgetDevice}
           onConnect={connectToPeer}
         />
       ) : (
         <TransferPage 
-          connectionStatus={translatedStatus}
+          myPeerId={myPeerId}
+          connectionState={connectionState}
+          participants={participants}
+          roomMode={roomMode}
+          securityCode={securityCode}
           onReceivedData={handleReceivedData}
           sendData={sendData}
+          requestFileTransfer={requestFileTransfer}
+          sendFile={sendFile}
+          transfers={transfers}
+          queue={queue}
+          onPauseTransfers={pauseTransfers}
+          onResumeTransfers={resumePausedTransfers}
+          onCancelTransfers={cancelTransfers}
+          onMoveTransfer={moveTransfer}
+          onClearFinishedTransfers={clearFinishedTransfers}
           receivedFiles={receivedFiles}
           receivedTexts={receivedTexts}
+          incomingRequests={incomingRequests}
+          onRespondToRequest={respondToRequest}
+          autoAcceptPeerIds={autoAcceptPeerIds}
+          onAutoAcceptChange={handleAutoAcceptChange}
+          onDisconnectPeer={disconnectPeer}
+          onTrustDevice={trustDevice}
           onDisconnect={disconnect}
         />
       )}
+      
+      <TransferHistory />
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,83 @@
+"use client";
+
+import { buildFolderTree, FolderTreeNode } from '@/lib/folderTransfer';
+import { formatFileSize } from '@/utils/helpers';
+
+interface FolderTreeFile {
+  path: string;
+  size: number;
+  url?: string;
+}
+
+interface FolderTreeProps {
+  files: FolderTreeFile[];
+}
+
+// Collapsible view of the folders and files sent together
+export default function FolderTree({ files }: FolderTreeProps) {
+  const renderNodes = (nodes: FolderTreeNode<FolderTreeFile>[], depth: number) => (
+    <ul className="folder-tree-list">
+      {nodes.map(node => (
+        <li key={node.path}>
+          {node.file ? (
+            <div className="folder-tree-file">
+              <span className="folder-tree-name">📄 {node.file.url ? (
+                <a href={node.file.url} download={node.name}>{node.name}</a>
+              ) : node.name}</span>
+              <span className="folder-tree-size">{formatFileSize(node.size)}</span>
+            </div>
+          ) : (
+            <details open={depth === 0}>
+              <summary>
+                <span className="folder-tree-name">📁 {node.name}</span>
+                <span className="folder-tree-size">{formatFileSize(node.size)}</span>
+              </summary>
+              {renderNodes(node.children, depth + 1)}
+            </details>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="folder-tree">
+      {renderNodes(buildFolderTree(files), 0)}
+
+      <style jsx>{`
+        .folder-tree {
+          max-height: 240px;
+          overflow-y: auto;
+          font-size: 13px;
+        }
+
+        .folder-tree :global(.folder-tree-list) {
+          list-style: none;
+          margin: 0;
+          padding-left: 14px;
+        }
+
+        .folder-tree > :global(.folder-tree-list) {
+          padding-left: 0;
+        }
+
+        .folder-tree :global(summary),
+        .folder-tree :global(.folder-tree-file) {
+          display: flex;
+          justify-content: space-between;
+          gap: 10px;
+          padding: 2px 0;
+        }
+
+        .folder-tree :global(summary) {
+          cursor: pointer;
+        }
+
+        .folder-tree :global(.folder-tree-size) {
+          color: #888;
+          white-space: nowrap;
+        }
+      `}</style>
+    </div>
+  );
+}
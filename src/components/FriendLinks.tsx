@@ -51,9 +51,8 @@ export default async function FriendLinks() {
   return (
     <div className="flex flex-wrap gap-3">
     {filteredLinks.map((link, index) => (
-        <div>
+        <div key={index}>
             <Link
-            key={index}
             href={link.link}
             target="_blank"
             rel="noopener noreferrer"
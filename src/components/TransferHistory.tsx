@@ -0,0 +1,261 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { formatFileSize, formatPeerId, showToast } from '@/utils/helpers';
+import {
+  HistoryEntry,
+  HISTORY_CHANGE_EVENT,
+  HISTORY_FILE_QUOTA,
+  isHistoryEnabled,
+  setHistoryEnabled,
+  isKeepingHistoryFiles,
+  setKeepingHistoryFiles,
+  listHistory,
+  getStoredFileSize,
+  deleteHistoryEntry,
+  clearHistory
+} from '@/lib/transferHistory';
+
+// Entries of one connection session with a peer
+interface HistorySession {
+  sessionId: string;
+  entries: HistoryEntry[];
+}
+
+interface HistoryPeer {
+  peerId: string;
+  sessions: HistorySession[];
+}
+
+/**
+ * Group entries by peer, then by session, keeping their order
+ * @param entries Entries, newest first
+ * @returns Peers with their sessions
+ */
+function groupEntries(entries: HistoryEntry[]): HistoryPeer[] {
+  const peers: HistoryPeer[] = [];
+  entries.forEach(entry => {
+    let peer = peers.find(item => item.peerId === entry.peerId);
+    if (!peer) {
+      peer = { peerId: entry.peerId, sessions: [] };
+      peers.push(peer);
+    }
+    let session = peer.sessions.find(item => item.sessionId === entry.sessionId);
+    if (!session) {
+      session = { sessionId: entry.sessionId, entries: [] };
+      peer.sessions.push(session);
+    }
+    session.entries.push(entry);
+  });
+  return peers;
+}
+
+// Opt-in history of past messages and files, with settings to turn it on
+export default function TransferHistory() {
+  const [open, setOpen] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [keepFiles, setKeepFiles] = useState(false);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+
+  // Settings live in localStorage, read them once mounted
+  useEffect(() => {
+    setEnabled(isHistoryEnabled());
+    setKeepFiles(isKeepingHistoryFiles());
+  }, []);
+
+  // Reload while the panel is open and entries are added or removed
+  useEffect(() => {
+    if (!open) return;
+    const load = () => {
+      listHistory().then(setEntries).catch((err) => {
+        console.error('Failed to load history:', err);
+      });
+    };
+    load();
+    window.addEventListener(HISTORY_CHANGE_EVENT, load);
+    return () => window.removeEventListener(HISTORY_CHANGE_EVENT, load);
+  }, [open]);
+
+  const handleEnabledChange = (value: boolean) => {
+    setHistoryEnabled(value);
+    setEnabled(value);
+  };
+
+  const handleKeepFilesChange = (value: boolean) => {
+    setKeepingHistoryFiles(value);
+    setKeepFiles(value);
+  };
+
+  const downloadEntry = (entry: HistoryEntry) => {
+    if (!entry.blob) return;
+    const url = URL.createObjectURL(entry.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = entry.content;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const removeEntry = (id: string) => {
+    deleteHistoryEntry(id).catch((err) => {
+      console.error('Failed to delete history entry:', err);
+      showToast('Could not delete the entry', true);
+    });
+  };
+
+  const removePeer = (peerId?: string) => {
+    if (!window.confirm(peerId ? 'Delete the history with this device?' : 'Delete the whole history?')) return;
+    clearHistory(peerId).catch((err) => {
+      console.error('Failed to clear history:', err);
+      showToast('Could not clear the history', true);
+    });
+  };
+
+  const peers = groupEntries(entries);
+
+  return (
+    <div className="transfer-history">
+      <button className="btn-small history-toggle" onClick={() => setOpen(!open)}>
+        🕘 {open ? 'Hide history' : 'History'}
+      </button>
+
+      {open && (
+        <div className="history-panel">
+          <label className="history-option">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => handleEnabledChange(e.target.checked)}
+            />
+            Keep a history of messages and files on this device
+          </label>
+          <label className="history-option">
+            <input
+              type="checkbox"
+              checked={keepFiles}
+              disabled={!enabled}
+              onChange={(e) => handleKeepFilesChange(e.target.checked)}
+            />
+            Also store received files, up to {formatFileSize(HISTORY_FILE_QUOTA)}
+            {keepFiles && ` (${formatFileSize(getStoredFileSize(entries))} used)`}
+          </label>
+
+          {peers.length === 0 ? (
+            <p className="history-empty">{enabled ? 'No history yet' : 'History is off'}</p>
+          ) : (
+            <>
+              {peers.map(peer => (
+                <div key={peer.peerId} className="history-peer">
+                  <div className="history-peer-header">
+                    <span title={peer.peerId}>{formatPeerId(peer.peerId)}</span>
+                    <button className="btn-small decline" onClick={() => removePeer(peer.peerId)}>Clear</button>
+                  </div>
+                  {peer.sessions.map(session => (
+                    <div key={session.sessionId} className="history-session">
+                      <div className="history-session-label">
+                        Session of {new Date(session.entries[session.entries.length - 1].timestamp).toLocaleString()}
+                      </div>
+                      <ul className="history-entries">
+                        {session.entries.map(entry => (
+                          <li key={entry.id} className="history-entry">
+                            <span className="history-direction">{entry.direction === 'sent' ? '↑' : '↓'}</span>
+                            <span className="history-content">
+                              {entry.kind === 'file' ? `📄 ${entry.path || entry.content}` : entry.content}
+                              {entry.verified === false && ' ⚠️'}
+                            </span>
+                            {entry.size !== undefined && (
+                              <span className="history-size">{formatFileSize(entry.size)}</span>
+                            )}
+                            <span className="history-time">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                            {entry.blob && (
+                              <button className="btn-small download" onClick={() => downloadEntry(entry)}>Download</button>
+                            )}
+                            <button className="btn-small" onClick={() => removeEntry(entry.id)} title="Delete">✕</button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              ))}
+              <button className="btn-small decline" onClick={() => removePeer()}>Clear all history</button>
+            </>
+          )}
+        </div>
+      )}
+
+      <style jsx>{`
+        .transfer-history {
+          margin-top: 15px;
+        }
+
+        .history-panel {
+          margin-top: 10px;
+          padding: 15px;
+          background: #fff;
+          border-radius: 8px;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.08);
+          font-size: 14px;
+        }
+
+        .history-option {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin-bottom: 8px;
+        }
+
+        .history-empty {
+          color: #888;
+          margin: 10px 0 0;
+        }
+
+        .history-peer {
+          margin: 12px 0;
+        }
+
+        .history-peer-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          font-weight: 500;
+          border-bottom: 1px solid #eee;
+          padding-bottom: 4px;
+        }
+
+        .history-session-label {
+          color: #888;
+          font-size: 12px;
+          margin: 8px 0 4px;
+        }
+
+        .history-entries {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+
+        .history-entry {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          padding: 3px 0;
+        }
+
+        .history-content {
+          flex: 1;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .history-direction,
+        .history-size,
+        .history-time {
+          color: #888;
+          white-space: nowrap;
+        }
+      `}</style>
+    </div>
+  );
+}
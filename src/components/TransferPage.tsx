@@ -1,11 +1,24 @@
 "use client";
 
 import { useState, useRef, useEffect } from 'react';
-import { formatFileSize, showToast } from '@/utils/helpers';
+import { formatFileSize, formatDuration, formatPeerId, showToast, createItemId } from '@/utils/helpers';
+import { TransferProgress, getProgressPercent } from '@/lib/transferProgress';
+import { FileDescription, TextMessage, createFileId } from '@/lib/transferProtocol';
+import { AppMessage } from '@/lib/protocol';
+import { QueueItem, QueueItemState, canPause, isFinishedState } from '@/lib/transferQueue';
+import { getRouteLabel, ConnectionRoute } from '@/lib/iceConfig';
+import { DiskSinkKind, openDiskSink } from '@/lib/diskSink';
+import { ConnectionState, describeConnectionState } from '@/lib/connectionState';
+import { ConnectionQuality } from '@/lib/heartbeat';
+import { addHistoryEntry } from '@/lib/transferHistory';
+import { writeZip, getDroppedFiles, getSelectedFiles, SelectedFile } from '@/lib/folderTransfer';
+import { Participant, AcceptedTransfer } from '@/hooks/usePeerConnection';
+import FolderTree from './FolderTree';
 
-interface FileItem {
-  file: File;
+interface FileItem extends SelectedFile {
   id: string;
+  // Thumbnail of a queued image
+  previewUrl?: string;
 }
 
 interface ReceivedFile {
@@ -14,37 +27,187 @@ interface ReceivedFile {
   url: string;
   type: string;
   id: string;
+  sha256: string;
+  verified: boolean;
+  peerId: string;
+  path?: string;
+  requestId?: string;
+  savedTo?: DiskSinkKind;
+  receivedAt: number;
 }
 
+// File shown as a message, sent files only carry what the list displays
+type MessageFile = Pick<ReceivedFile, 'name' | 'size' | 'type' | 'url'> & Partial<ReceivedFile>;
+
 interface ReceivedText {
   content: string;
   timestamp: string;
   id: string;
+  peerId: string;
+}
+
+interface IncomingRequest {
+  requestId: string;
+  peerId: string;
+  files: FileDescription[];
+  totalSize: number;
+  status: 'pending' | 'accepted' | 'declined';
+  id: string;
+  receivedAt: number;
+}
+
+// Files of a folder, shown as one message
+interface FolderMessage {
+  files: { path: string; size: number; url: string; verified?: boolean; savedTo?: DiskSinkKind }[];
+  // Number of files the folder was sent with
+  totalCount: number;
+}
+
+interface ChatMessage {
+  id: string;
+  content: string;
+  timestamp: string;
+  type: 'sent' | 'received';
+  isFile?: boolean;
+  fileData?: MessageFile;
+  folder?: FolderMessage;
+  request?: IncomingRequest;
+  peerId?: string;
+}
+
+// Label shown for each state of a queued file
+const QUEUE_STATE_LABELS: Record<QueueItemState, string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  paused: 'Paused',
+  done: 'Sent',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+// Where a large file that was streamed to disk ended up
+const SAVED_TO_LABELS: Record<DiskSinkKind, string> = {
+  'file-system': 'Saved to the chosen location',
+  'service-worker': 'Saved by the browser to your downloads'
+};
+
+// Explanation shown when hovering a participant's route
+const ROUTE_TITLES: Record<ConnectionRoute, string> = {
+  direct: 'Data flows directly between the devices',
+  stun: 'Data flows directly between the devices',
+  relay: 'Data is relayed through a TURN server, still end-to-end encrypted',
+  websocket: 'WebRTC could not connect, data is relayed through this site\'s server, still end-to-end encrypted'
+};
+
+// Label and order of the heartbeat quality, worst last
+const QUALITY_LABELS: Record<ConnectionQuality, string> = {
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor'
+};
+const QUALITY_RANK: Record<ConnectionQuality, number> = { good: 0, fair: 1, poor: 2 };
+
+/**
+ * Find the device with the worst connection, it sets the quality shown in the status bar
+ * @param participants Connected devices
+ * @returns Slowest device with a measured quality, or null before the first heartbeat
+ */
+function getSlowestParticipant(participants: Participant[]) {
+  return participants
+    .filter((participant): participant is Participant & { quality: ConnectionQuality } => participant.quality !== null)
+    .sort((a, b) => QUALITY_RANK[b.quality] - QUALITY_RANK[a.quality] || (b.rtt ?? 0) - (a.rtt ?? 0))[0] || null;
+}
+
+/**
+ * Name a set of folder files after their top-level folders
+ * @param paths Relative paths
+ * @returns Folder names, comma separated
+ */
+function getFolderName(paths: string[]): string {
+  return Array.from(new Set(paths.map(path => path.split('/')[0]))).join(', ');
 }
 
 interface TransferPageProps {
-  connectionStatus: string;
-  onReceivedData: (data: any) => void;
-  sendData: (data: any) => boolean;
+  myPeerId: string;
+  connectionState: ConnectionState;
+  participants: Participant[];
+  roomMode: boolean;
+  securityCode: string;
+  onReceivedData: (data: AppMessage, peerId: string) => void;
+  sendData: (data: AppMessage, peerIds?: string[]) => boolean;
+  requestFileTransfer: (files: SelectedFile[], peerIds?: string[]) => Promise<AcceptedTransfer[]>;
+  sendFile: (file: File, peerId: string, fileId: string, batchId: string, path?: string) => Promise<boolean>;
+  transfers: TransferProgress[];
+  queue: QueueItem[];
+  onPauseTransfers: (fileIds: string[]) => void;
+  onResumeTransfers: (fileIds: string[]) => void;
+  onCancelTransfers: (fileIds: string[]) => void;
+  onMoveTransfer: (fileId: string, offset: number) => void;
+  onClearFinishedTransfers: () => void;
   receivedFiles: ReceivedFile[];
   receivedTexts: ReceivedText[];
+  incomingRequests: IncomingRequest[];
+  onRespondToRequest: (request: IncomingRequest, accepted: boolean) => void;
+  autoAcceptPeerIds: string[];
+  onAutoAcceptChange: (peerId: string, enabled: boolean) => void;
+  onDisconnectPeer: (peerId: string) => void;
+  onTrustDevice: (peerId: string) => void;
   onDisconnect?: () => void;
 }
 
 export default function TransferPage({
-  connectionStatus,
+  myPeerId,
+  connectionState,
+  participants,
+  roomMode,
+  securityCode,
   onReceivedData,
   sendData,
+  requestFileTransfer,
+  sendFile,
+  transfers,
+  queue,
+  onPauseTransfers,
+  onResumeTransfers,
+  onCancelTransfers,
+  onMoveTransfer,
+  onClearFinishedTransfers,
   receivedFiles,
   receivedTexts,
+  incomingRequests,
+  onRespondToRequest,
+  autoAcceptPeerIds,
+  onAutoAcceptChange,
+  onDisconnectPeer,
+  onTrustDevice,
   onDisconnect
 }: TransferPageProps) {
   // State management
   const [selectedFiles, setSelectedFiles] = useState<FileItem[]>([]);
+  // Dropped or pasted files waiting for the user to press Send
+  const [pendingFiles, setPendingFiles] = useState<FileItem[]>([]);
+  const [dragActive, setDragActive] = useState(false);
+  // dragenter and dragleave also fire for child elements, count them to know when the drag really leaves
+  const dragDepthRef = useRef(0);
   const [textInput, setTextInput] = useState('');
-  const [transferProgress, setTransferProgress] = useState<number>(0);
-  const [isTransferring, setIsTransferring] = useState<boolean>(false);
-  const [messages, setMessages] = useState<{id: string; content: string; timestamp: string; type: 'sent' | 'received'; isFile?: boolean; fileData?: any}[]>([]);
+  const [sentMessages, setSentMessages] = useState<ChatMessage[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Peers to send to; empty means every participant
+  const [selectedPeerIds, setSelectedPeerIds] = useState<string[]>([]);
+  const [inviteCopied, setInviteCopied] = useState(false);
+  const showPeerLabels = roomMode || participants.length > 1;
+  const slowestParticipant = getSlowestParticipant(participants);
+  const receivingTransfers = transfers.filter(transfer => transfer.direction === 'receiving');
+  // Queued files grouped by the request they were accepted in, in queue order
+  const queueBatches: QueueItem[][] = [];
+  queue.forEach(item => {
+    const batch = queueBatches.find(items => items[0].batchId === item.batchId);
+    if (batch) {
+      batch.push(item);
+    } else {
+      queueBatches.push([item]);
+    }
+  });
   const fileInputRef = useRef<HTMLInputElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   
@@ -56,26 +219,70 @@ export default function TransferPage({
       content: text.content,
       timestamp: text.timestamp,
       type: 'received' as const,
-      isFile: false
+      isFile: false,
+      peerId: text.peerId
     }));
     
-    // Convert received files to unified format
-    const fileMessages = receivedFiles.map(file => ({
+    // Convert received files to unified format, files of a folder become one message
+    const fileMessages: ChatMessage[] = receivedFiles.filter(file => !file.path).map(file => ({
       id: file.id,
       content: file.name,
-      timestamp: new Date(parseInt(file.id)).toLocaleString(),
+      timestamp: new Date(file.receivedAt).toLocaleString(),
       type: 'received' as const,
       isFile: true,
-      fileData: file
+      fileData: file,
+      peerId: file.peerId
+    }));
+    
+    const folders = new Map<string, ReceivedFile[]>();
+    receivedFiles.forEach(file => {
+      if (!file.path) return;
+      const key = file.requestId || file.id;
+      folders.set(key, [...(folders.get(key) || []), file]);
+    });
+    folders.forEach((files, requestId) => {
+      const request = incomingRequests.find(item => item.requestId === requestId);
+      fileMessages.push({
+        id: files[0].id,
+        content: getFolderName(files.map(file => file.path!)),
+        timestamp: new Date(files[0].receivedAt).toLocaleString(),
+        type: 'received' as const,
+        folder: {
+          files: files.map(file => ({
+            path: file.path!,
+            size: file.size,
+            url: file.url,
+            verified: file.verified,
+            savedTo: file.savedTo
+          })),
+          totalCount: request ? request.files.filter(file => file.path).length : files.length
+        },
+        peerId: files[0].peerId
+      });
+    });
+    
+    // Convert incoming transfer requests to unified format
+    const requestMessages = incomingRequests.map(request => ({
+      id: request.id,
+      content: `${request.files.length} file(s)`,
+      timestamp: new Date(request.receivedAt).toLocaleString(),
+      type: 'received' as const,
+      request,
+      peerId: request.peerId
     }));
     
     // Merge all messages and sort by time
-    const allMessages = [...textMessages, ...fileMessages].sort((a, b) => {
+    const allMessages: ChatMessage[] = [...sentMessages, ...textMessages, ...fileMessages, ...requestMessages].sort((a, b) => {
       return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
     });
     
     setMessages(allMessages);
-  }, [receivedTexts, receivedFiles]);
+  }, [sentMessages, receivedTexts, receivedFiles, incomingRequests]);
+  
+  // Forget selected peers that have left
+  useEffect(() => {
+    setSelectedPeerIds(prev => prev.filter(id => participants.some(p => p.peerId === id)));
+  }, [participants]);
   
   // Auto-scroll to the latest message
   useEffect(() => {
@@ -85,11 +292,11 @@ export default function TransferPage({
   }, [messages]);
 
   // Handle file selection
-  const handleFileSelect = async (files: FileList | null) => {
-    if (!files || files.length === 0) return;
+  const handleFileSelect = async (files: SelectedFile[]) => {
+    if (files.length === 0) return;
     
-    const newFiles = Array.from(files).map(file => ({
-      file,
+    const newFiles = files.map(file => ({
+      ...file,
       id: Date.now() + '-' + Math.random().toString(36).substr(2, 9)
     }));
     
@@ -99,67 +306,186 @@ export default function TransferPage({
     await sendFiles(newFiles);
   };
   
+  // Add files to the preview strip, they are sent with the next Send
+  const queueFiles = (files: SelectedFile[]) => {
+    if (files.length === 0) return;
+    const newFiles = files.map(file => ({
+      ...file,
+      id: Date.now() + '-' + Math.random().toString(36).substr(2, 9),
+      previewUrl: file.file.type.startsWith('image/') ? URL.createObjectURL(file.file) : undefined
+    }));
+    setPendingFiles(prev => [...prev, ...newFiles]);
+  };
+  
+  // Take a file off the preview strip
+  const removePendingFile = (id: string) => {
+    setPendingFiles(prev => {
+      const removed = prev.find(item => item.id === id);
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter(item => item.id !== id);
+    });
+  };
+  
+  // Release thumbnails and the URLs of sent files when the page goes away,
+  // received files are released by their owner
+  const pendingFilesRef = useRef<FileItem[]>([]);
+  pendingFilesRef.current = pendingFiles;
+  const sentMessagesRef = useRef<ChatMessage[]>([]);
+  sentMessagesRef.current = sentMessages;
+  useEffect(() => {
+    return () => {
+      pendingFilesRef.current.forEach(item => {
+        if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+      });
+      sentMessagesRef.current.forEach(message => {
+        if (message.fileData?.url) URL.revokeObjectURL(message.fileData.url);
+        message.folder?.files.forEach(file => URL.revokeObjectURL(file.url));
+      });
+    };
+  }, []);
+  
+  // Only react to drags carrying files, not selected text
+  const isFileDrag = (e: React.DragEvent<HTMLDivElement>) => Array.from(e.dataTransfer.types).includes('Files');
+  
+  const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current += 1;
+    setDragActive(true);
+  };
+  
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+  
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setDragActive(false);
+  };
+  
+  // Queue files and folders dropped on the chat
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setDragActive(false);
+    try {
+      queueFiles(await getDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      console.error('Failed to read dropped files:', error);
+      showToast('Could not read the dropped files', true);
+    }
+  };
+  
+  // Queue images and files pasted into the message box, plain text is pasted as usual
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.items)
+      .filter(item => item.kind === 'file')
+      .map(item => item.getAsFile())
+      .filter((file): file is File => file !== null);
+    if (files.length === 0) return;
+    
+    e.preventDefault();
+    queueFiles(files.map(file => ({ file })));
+  };
+  
   // Send files
   const sendFiles = async (filesToSend: FileItem[] = selectedFiles) => {
     if (filesToSend.length === 0) return;
     
-    setIsTransferring(true);
-    const totalFiles = filesToSend.length;
-    let completedFiles = 0;
+    // Nothing is streamed until a receiver accepts
+    showToast('Waiting for the other device to accept...');
+    const accepted = await requestFileTransfer(filesToSend.map(({ file, path }) => ({ file, path })), selectedPeerIds);
+    if (accepted.length === 0) {
+      showToast('The other device declined the files', true);
+      setSelectedFiles([]);
+      return;
+    }
     
-    for (const fileItem of filesToSend) {
-      try {
-        const file = fileItem.file;
-        const arrayBuffer = await file.arrayBuffer();
-        
-        // Prepare file metadata
-        const fileData = {
-          type: 'file',
-          name: file.name,
+    // Files sent from folders are shown together once all of them are sent
+    const folderFiles: FolderMessage['files'] = [];
+    let sentFiles = 0;
+    
+    // Every file goes into the queue at once, the queue sends them one by one per device
+    await Promise.all(filesToSend.map(async ({ file, path }, i) => {
+      const results = await Promise.all(
+        accepted.map(target => sendFile(file, target.peerId, target.fileIds[i], target.requestId, path))
+      );
+      const sentCount = results.filter(Boolean).length;
+      if (sentCount === 0) return;
+      sentFiles++;
+      accepted.forEach((target, index) => {
+        if (!results[index]) return;
+        addHistoryEntry({
+          peerId: target.peerId,
+          direction: 'sent',
+          kind: 'file',
+          content: file.name,
           size: file.size,
-          dataType: file.type || 'application/octet-stream',
-          data: arrayBuffer
+          type: file.type,
+          path
+        });
+      });
+      
+      if (path) {
+        folderFiles.push({ path, size: file.size, url: URL.createObjectURL(file) });
+      } else {
+        // Add to local message list
+        const newMessage = {
+          id: createFileId(),
+          content: file.name,
+          timestamp: new Date().toLocaleString(),
+          type: 'sent' as const,
+          isFile: true,
+          fileData: {
+            name: file.name,
+            size: file.size,
+            type: file.type,
+            url: URL.createObjectURL(file)
+          }
         };
-        
-        // Send file data
-        if (sendData(fileData)) {
-          // Add to local message list
-          const newMessage = {
-            id: Date.now().toString(),
-            content: file.name,
-            timestamp: new Date().toLocaleString(),
-            type: 'sent' as const,
-            isFile: true,
-            fileData: {
-              name: file.name,
-              size: file.size,
-              type: file.type,
-              url: URL.createObjectURL(file)
-            }
-          };
-          setMessages(prev => [...prev, newMessage]);
-          
-          completedFiles++;
-          setTransferProgress((completedFiles / totalFiles) * 100);
-          showToast(`Sending: ${file.name}`);
-        } else {
-          showToast('Send failed, please check connection', true);
-          setIsTransferring(false);
-          return;
-        }
-      } catch (error) {
-        console.error('Failed to read file:', error);
-        showToast('File transfer failed', true);
-        setIsTransferring(false);
-        return;
+        setSentMessages(prev => [...prev, newMessage]);
+        showToast(sentCount > 1 ? `Sent: ${file.name} to ${sentCount} devices` : `Sent: ${file.name}`);
       }
+    }));
+    
+    if (folderFiles.length > 0) {
+      const folderMessage = {
+        id: createFileId(),
+        content: getFolderName(folderFiles.map(file => file.path)),
+        timestamp: new Date().toLocaleString(),
+        type: 'sent' as const,
+        folder: { files: folderFiles, totalCount: folderFiles.length }
+      };
+      setSentMessages(prev => [...prev, folderMessage]);
     }
     
     // Clear file list
     setSelectedFiles([]);
-    setTransferProgress(0);
-    setIsTransferring(false);
-    showToast('File transfer completed');
+    if (sentFiles === filesToSend.length) {
+      showToast('File transfer completed');
+    } else if (sentFiles === 0) {
+      showToast('No files were sent', true);
+    } else {
+      showToast(`${filesToSend.length - sentFiles} file(s) were not sent`, true);
+    }
+  };
+  
+  // Send the typed text and any queued files
+  const handleSend = () => {
+    if (textInput.trim()) {
+      sendText();
+    }
+    if (pendingFiles.length > 0) {
+      pendingFiles.forEach(item => {
+        if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+      });
+      setPendingFiles([]);
+      handleFileSelect(pendingFiles.map(({ file, path }) => ({ file, path })));
+    }
   };
   
   // Send text
@@ -167,23 +493,26 @@ export default function TransferPage({
     if (!textInput.trim()) return;
     
     // Prepare text data
-    const textData = {
+    const textData: TextMessage = {
       type: 'text',
       content: textInput.trim(),
       timestamp: new Date().toISOString()
     };
     
     // Send text data
-    if (sendData(textData)) {
+    if (sendData(textData, selectedPeerIds)) {
+      const recipients = selectedPeerIds.length > 0 ? selectedPeerIds : participants.map(p => p.peerId);
+      recipients.forEach(peerId => addHistoryEntry({ peerId, direction: 'sent', kind: 'text', content: textData.content }));
+      
       // Add to local message list
       const newMessage = {
-        id: Date.now().toString(),
+        id: createItemId(),
         content: textInput.trim(),
         timestamp: new Date().toLocaleString(),
         type: 'sent' as const,
         isFile: false
       };
-      setMessages(prev => [...prev, newMessage]);
+      setSentMessages(prev => [...prev, newMessage]);
       
       // Clear input
       setTextInput('');
@@ -193,6 +522,69 @@ export default function TransferPage({
     }
   };
   
+  // Toggle whether a participant receives what we send
+  const togglePeerSelection = (peerId: string) => {
+    setSelectedPeerIds(prev => {
+      const current = prev.length === 0 ? participants.map(p => p.peerId) : prev;
+      const next = current.includes(peerId) ? current.filter(id => id !== peerId) : [...current, peerId];
+      // Keep at least one target; selecting everyone is the same as the default
+      if (next.length === 0) return prev;
+      return next.length === participants.length ? [] : next;
+    });
+  };
+  
+  // Copy the link other devices use to join the room
+  const copyInviteLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/scan?connect=${myPeerId}`)
+      .then(() => {
+        setInviteCopied(true);
+        setTimeout(() => setInviteCopied(false), 2000);
+      })
+      .catch(err => {
+        console.error('Failed to copy invite link:', err);
+        showToast('Copy failed, please share your ID manually', true);
+      });
+  };
+  
+  // Download the files of a folder as one ZIP archive with the same hierarchy
+  const downloadFolderZip = async (message: ChatMessage) => {
+    if (!message.folder) return;
+    const name = `${message.content.split(', ')[0] || 'folder'}.zip`;
+    // Streamed into a browser download where possible, so the archive is never held in memory
+    const sink = openDiskSink(name, 0, 'application/zip');
+    try {
+      showToast('Preparing ZIP...');
+      const files = await Promise.all(
+        message.folder.files
+          // Files streamed to disk are not in memory any more
+          .filter(file => file.verified !== false && file.url)
+          .map(async file => ({ path: file.path, blob: await (await fetch(file.url)).blob() }))
+      );
+      if (sink) {
+        await writeZip(files, async data => {
+          sink.write(data.slice().buffer);
+          await sink.drain();
+        });
+        await sink.close();
+        return;
+      }
+      const pieces: Uint8Array[] = [];
+      await writeZip(files, async data => {
+        pieces.push(data);
+      });
+      const url = URL.createObjectURL(new Blob(pieces as BlobPart[], { type: 'application/zip' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = name;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      console.error('Failed to create ZIP:', error);
+      sink?.abort();
+      showToast('Could not create the ZIP file', true);
+    }
+  };
+  
   // Copy image to clipboard
   const copyImageToClipboard = async (url: string, fileName: string) => {
     try {
@@ -257,30 +649,183 @@ export default function TransferPage({
   const handleKeyPress = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault(); // Prevent default line break behavior
-      sendText();
+      handleSend();
     }
   };
   
   return (
     <>
       <div className="status-bar">
-        <p>Status: <span className={connectionStatus.includes('Connected') ? 'connected-text' : ''}>{connectionStatus}</span></p>
-        {onDisconnect && (
-          <div className="status-actions">
+        <p>Status: <span className={connectionState.status === 'connected' ? 'connected-text' : ''}>{describeConnectionState(connectionState)}</span></p>
+        {slowestParticipant && (
+          <p
+            className={`latency quality-${slowestParticipant.quality}`}
+            title={participants.map(participant =>
+              `${participant.device?.name || formatPeerId(participant.peerId)}: ${participant.rtt !== null ? `${participant.rtt} ms` : 'not measured'}`
+            ).join('\n')}
+          >
+            <span className="latency-dot"></span>
+            {QUALITY_LABELS[slowestParticipant.quality]}
+            {slowestParticipant.rtt !== null && ` · ${slowestParticipant.rtt} ms`}
+          </p>
+        )}
+        {securityCode && (
+          <p className="security-code" title="Both devices should show the same code. If they differ, disconnect.">
+            🔒 Security code: <span className="security-code-value">{securityCode}</span>
+          </p>
+        )}
+        <div className="status-actions">
+          {onDisconnect && (
             <button className="disconnect-btn" onClick={onDisconnect}>
               <span>Disconnect</span>
             </button>
+          )}
+        </div>
+      </div>
+      
+      <div className="participants-bar">
+        {roomMode && (
+          <div className="room-invite">
+            Room ID: <span className="room-id">{myPeerId}</span>
+            <button className="btn-small" onClick={copyInviteLink}>{inviteCopied ? 'Copied!' : 'Copy invite link'}</button>
           </div>
         )}
+        <ul className="participant-list">
+          {participants.map(participant => (
+            <li key={participant.peerId} className="participant">
+              {participants.length > 1 && (
+                <input
+                  type="checkbox"
+                  title="Send to this device"
+                  checked={selectedPeerIds.length === 0 || selectedPeerIds.includes(participant.peerId)}
+                  onChange={() => togglePeerSelection(participant.peerId)}
+                />
+              )}
+              {participant.device ? (
+                <span className="participant-device" title={participant.peerId}>{participant.device.name}</span>
+              ) : (
+                <span className="participant-id" title={participant.peerId}>{formatPeerId(participant.peerId)}</span>
+              )}
+              {showPeerLabels && participant.securityCode && (
+                <span className="participant-code" title="Security code for this device">{participant.securityCode}</span>
+              )}
+              {participant.route && (
+                <span
+                  className={`participant-route route-${participant.route}`}
+                  title={ROUTE_TITLES[participant.route]}
+                >
+                  {getRouteLabel(participant.route)}
+                </span>
+              )}
+              {participant.device && (participant.device.trusted ? (
+                <span className="participant-trusted" title="Remembered, reconnect from My devices">★ Remembered</span>
+              ) : (
+                <button
+                  className="btn-small"
+                  onClick={() => onTrustDevice(participant.peerId)}
+                  title="Check the security code first, then reconnect later from My devices"
+                >
+                  Remember
+                </button>
+              ))}
+              {participant.device?.trusted && (
+                <label className="auto-accept-toggle" title="Receive files from this remembered device without asking">
+                  <input
+                    type="checkbox"
+                    checked={autoAcceptPeerIds.includes(participant.peerId)}
+                    onChange={(e) => onAutoAcceptChange(participant.peerId, e.target.checked)}
+                  />
+                  Auto-accept
+                </label>
+              )}
+              {roomMode && (
+                <button className="btn-small remove-participant" onClick={() => onDisconnectPeer(participant.peerId)}>Remove</button>
+              )}
+            </li>
+          ))}
+        </ul>
       </div>
       
       <div className="chat-container">
-        <div className="messages-container" ref={chatContainerRef}>
+        <div
+          className={`messages-container ${dragActive ? 'drag-active' : ''}`}
+          ref={chatContainerRef}
+          onDragEnter={handleDragEnter}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          {dragActive && (
+            <div className="drop-hint">Drop files or folders to send</div>
+          )}
           {messages.length > 0 ? (
             messages.map((message) => (
               <div key={message.id} className={`message ${message.type === 'sent' ? 'message-sent' : 'message-received'}`}>
                 <div className="message-content">
-                  {message.isFile ? (
+                  {message.request ? (
+                    <div className="file-message request-message">
+                      <div className="request-title">
+                        Incoming {message.request.files.length} file(s), {formatFileSize(message.request.totalSize)}
+                      </div>
+                      {message.request.files.some(file => file.path) && (
+                        <FolderTree
+                          files={message.request.files
+                            .filter(file => file.path)
+                            .map(file => ({ path: file.path!, size: file.size }))}
+                        />
+                      )}
+                      <ul className="request-files">
+                        {message.request.files.filter(file => !file.path).map(file => (
+                          <li key={file.fileId}>
+                            <span className="file-name">{file.name}</span>
+                            <span className="file-size">{formatFileSize(file.size)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                      {message.request.status === 'pending' ? (
+                        <div className="file-actions">
+                          <button className="btn-small accept" onClick={() => onRespondToRequest(message.request!, true)}>Accept</button>
+                          <button className="btn-small decline" onClick={() => onRespondToRequest(message.request!, false)}>Decline</button>
+                        </div>
+                      ) : (
+                        <div className="request-status">
+                          {message.request.status === 'accepted' ? 'Accepted' : 'Declined'}
+                        </div>
+                      )}
+                    </div>
+                  ) : message.folder ? (
+                    <div className="file-message folder-message">
+                      <div className="file-info">
+                        <span className="file-icon">📁</span>
+                        <span className="file-name">{message.content}</span>
+                        <span className="file-size">
+                          {message.folder.files.length < message.folder.totalCount
+                            ? `${message.folder.files.length}/${message.folder.totalCount} files`
+                            : `${message.folder.totalCount} files`}
+                        </span>
+                      </div>
+                      
+                      <FolderTree files={message.folder.files} />
+                      
+                      {message.folder.files.some(file => file.verified === false) && (
+                        <div className="file-integrity failed">
+                          ⚠️ Some files failed the integrity check and are left out of the ZIP
+                        </div>
+                      )}
+                      
+                      {message.folder.files.some(file => file.savedTo) && (
+                        <div className="file-saved">
+                          Large files were saved directly to disk and are left out of the ZIP
+                        </div>
+                      )}
+                      
+                      <div className="file-actions">
+                        <button className="btn-small download" onClick={() => downloadFolderZip(message)}>
+                          Download as ZIP
+                        </button>
+                      </div>
+                    </div>
+                  ) : message.isFile && message.fileData ? (
                     <div className="file-message">
                       <div className="file-info">
                         <span className="file-icon">
@@ -295,8 +840,8 @@ export default function TransferPage({
                         <span className="file-size">{formatFileSize(message.fileData.size)}</span>
                       </div>
                       
-                      {message.fileData.type.startsWith('image/') && (
-                        <div className="image-preview" onClick={() => handleImageClick(message.fileData.url)}>
+                      {message.fileData.type.startsWith('image/') && message.fileData.verified !== false && message.fileData.url && (
+                        <div className="image-preview" onClick={() => handleImageClick(message.fileData!.url)}>
                           <img 
                             src={message.fileData.url} 
                             alt={message.content} 
@@ -305,12 +850,27 @@ export default function TransferPage({
                         </div>
                       )}
                       
+                      {message.type === 'received' && (
+                        <div
+                          className={`file-integrity ${message.fileData.verified ? 'verified' : 'failed'}`}
+                          title={message.fileData.sha256 ? `SHA-256: ${message.fileData.sha256}` : undefined}
+                        >
+                          {message.fileData.verified ? '✓ SHA-256 verified' : '⚠️ Integrity check failed, the file may be corrupted'}
+                        </div>
+                      )}
+                      
                       <div className="file-actions">
-                        <a href={message.fileData.url} download={message.content} className="btn-small download">Download</a>
-                        {message.fileData.type.startsWith('image/') && (
+                        {message.fileData.verified === false ? (
+                          <button className="btn-small download" disabled>Download</button>
+                        ) : message.fileData.savedTo ? (
+                          <span className="file-saved">{SAVED_TO_LABELS[message.fileData.savedTo]}</span>
+                        ) : (
+                          <a href={message.fileData.url} download={message.content} className="btn-small download">Download</a>
+                        )}
+                        {message.fileData.type.startsWith('image/') && message.fileData.verified !== false && message.fileData.url && (
                           <button 
                             className="btn-small copy-image" 
-                            onClick={() => copyImageToClipboard(message.fileData.url, message.content)}
+                            onClick={() => copyImageToClipboard(message.fileData!.url, message.content)}
                           >
                             Copy Image
                           </button>
@@ -331,6 +891,9 @@ export default function TransferPage({
                   )}
                 </div>
                 <div className="message-time">
+                  {showPeerLabels && message.type === 'received' && message.peerId && (
+                    <span className="message-peer">{formatPeerId(message.peerId)} · </span>
+                  )}
                   {message.timestamp}
                 </div>
               </div>
@@ -343,15 +906,52 @@ export default function TransferPage({
           )}
         </div>
         
+        {pendingFiles.length > 0 && (
+          <div className="pending-files">
+            {pendingFiles.map(item => (
+              <div key={item.id} className="pending-file" title={item.path || item.file.name}>
+                {item.previewUrl ? (
+                  <img src={item.previewUrl} alt={item.file.name} className="pending-thumbnail" />
+                ) : (
+                  <span className="pending-icon">📄</span>
+                )}
+                <span className="pending-name">{item.file.name}</span>
+                <span className="pending-size">{formatFileSize(item.file.size)}</span>
+                <button
+                  className="pending-remove"
+                  onClick={() => removePendingFile(item.id)}
+                  title="Remove"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        
         <div className="message-input-container">
           <div className="message-tools">
-            <label htmlFor="file-input-chat" className="file-btn">📎</label>
+            <label htmlFor="file-input-chat" className="file-btn" title="Send files">📎</label>
             <input 
               type="file" 
               id="file-input-chat" 
               multiple 
               hidden 
-              onChange={(e) => handleFileSelect(e.target.files)}
+              onChange={(e) => {
+                if (e.target.files) handleFileSelect(getSelectedFiles(e.target.files));
+                e.target.value = '';
+              }}
+            />
+            <label htmlFor="folder-input-chat" className="file-btn" title="Send a folder">📁</label>
+            <input 
+              type="file" 
+              id="folder-input-chat" 
+              hidden 
+              {...{ webkitdirectory: '' }}
+              onChange={(e) => {
+                if (e.target.files) handleFileSelect(getSelectedFiles(e.target.files));
+                e.target.value = '';
+              }}
             />
           </div>
           
@@ -361,23 +961,108 @@ export default function TransferPage({
             value={textInput}
             onChange={(e) => setTextInput(e.target.value)}
             onKeyPress={handleKeyPress}
+            onPaste={handlePaste}
           ></textarea>
           
           <button 
             className="send-btn" 
-            disabled={!textInput.trim()}
-            onClick={sendText}
+            disabled={!textInput.trim() && pendingFiles.length === 0}
+            onClick={handleSend}
           >
             Send
           </button>
         </div>
         
-        {isTransferring && (
+        {(queue.length > 0 || receivingTransfers.length > 0) && (
           <div className="transfer-progress-container">
-            <div className="transfer-progress">
-              <div className="progress-bar" style={{ width: `${transferProgress}%` }}></div>
-            </div>
-            <div className="transfer-status">Sending files: {Math.round(transferProgress)}%</div>
+            {queue.some(item => isFinishedState(item.state)) && (
+              <div className="queue-toolbar">
+                <button className="btn-small" onClick={onClearFinishedTransfers}>Clear finished</button>
+              </div>
+            )}
+            {queueBatches.map(items => {
+              const fileIds = items.map(item => item.fileId);
+              return (
+                <div key={items[0].batchId} className="queue-batch">
+                  <div className="queue-batch-header">
+                    <span>
+                      ⬆️ {items.length} file(s)
+                      {showPeerLabels && <span className="transfer-peer"> to {formatPeerId(items[0].peerId)}</span>}
+                    </span>
+                    <div className="queue-actions">
+                      {items.some(item => canPause(item.state)) && (
+                        <button className="btn-small" onClick={() => onPauseTransfers(fileIds)}>Pause all</button>
+                      )}
+                      {items.some(item => item.state === 'paused') && (
+                        <button className="btn-small" onClick={() => onResumeTransfers(fileIds)}>Resume all</button>
+                      )}
+                      {items.some(item => !isFinishedState(item.state)) && (
+                        <button className="btn-small decline" onClick={() => onCancelTransfers(fileIds)}>Cancel all</button>
+                      )}
+                    </div>
+                  </div>
+                  {items.map((item, index) => {
+                    const progress = transfers.find(transfer => transfer.fileId === item.fileId && transfer.direction === 'sending');
+                    const sentBytes = progress ? progress.transferredBytes : item.state === 'done' ? item.size : item.ackedBytes;
+                    const percent = item.size > 0 ? Math.min(100, (sentBytes / item.size) * 100) : (item.state === 'done' ? 100 : 0);
+                    const finished = isFinishedState(item.state);
+                    return (
+                      <div key={item.fileId} className={`transfer-row queue-item queue-${item.state}`}>
+                        <div className="transfer-row-info">
+                          <span className="transfer-name" title={item.path || item.name}>{item.name}</span>
+                          <span className="transfer-percent">
+                            {QUEUE_STATE_LABELS[item.state]}{!finished && ` · ${Math.round(percent)}%`}
+                          </span>
+                        </div>
+                        <div className="transfer-progress">
+                          <div className="progress-bar" style={{ width: `${percent}%` }}></div>
+                        </div>
+                        <div className="queue-item-footer">
+                          <div className="transfer-status">
+                            {formatFileSize(sentBytes)} / {formatFileSize(item.size)}
+                            {progress && progress.bytesPerSecond > 0 && ` · ${formatFileSize(progress.bytesPerSecond)}/s`}
+                            {progress && progress.etaSeconds !== null && ` · ${formatDuration(progress.etaSeconds)} left`}
+                          </div>
+                          {!finished && (
+                            <div className="queue-actions">
+                              <button className="btn-small" title="Send earlier" disabled={index === 0} onClick={() => onMoveTransfer(item.fileId, -1)}>↑</button>
+                              <button className="btn-small" title="Send later" disabled={index === items.length - 1} onClick={() => onMoveTransfer(item.fileId, 1)}>↓</button>
+                              {item.state === 'paused' ? (
+                                <button className="btn-small" onClick={() => onResumeTransfers([item.fileId])}>Resume</button>
+                              ) : (
+                                <button className="btn-small" onClick={() => onPauseTransfers([item.fileId])}>Pause</button>
+                              )}
+                              <button className="btn-small decline" onClick={() => onCancelTransfers([item.fileId])}>Cancel</button>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+            {receivingTransfers.map((transfer) => (
+              <div key={transfer.fileId} className="transfer-row">
+                <div className="transfer-row-info">
+                  <span className="transfer-name">
+                    {transfer.direction === 'sending' ? '⬆️' : '⬇️'} {transfer.name}
+                    {showPeerLabels && (
+                      <span className="transfer-peer"> {transfer.direction === 'sending' ? 'to' : 'from'} {formatPeerId(transfer.peerId)}</span>
+                    )}
+                  </span>
+                  <span className="transfer-percent">{Math.round(getProgressPercent(transfer))}%</span>
+                </div>
+                <div className="transfer-progress">
+                  <div className="progress-bar" style={{ width: `${getProgressPercent(transfer)}%` }}></div>
+                </div>
+                <div className="transfer-status">
+                  {formatFileSize(transfer.transferredBytes)} / {formatFileSize(transfer.size)}
+                  {transfer.bytesPerSecond > 0 && ` · ${formatFileSize(transfer.bytesPerSecond)}/s`}
+                  {transfer.etaSeconds !== null && ` · ${formatDuration(transfer.etaSeconds)} left`}
+                </div>
+              </div>
+            ))}
           </div>
         )}
       </div>
@@ -394,12 +1079,95 @@ export default function TransferPage({
         }
         
         .messages-container {
+          position: relative;
           flex: 1;
           overflow-y: auto;
           padding: 15px;
           background-color: #f5f7f9;
         }
         
+        .messages-container.drag-active {
+          outline: 2px dashed #0066cc;
+          outline-offset: -8px;
+          background-color: #eaf2fb;
+        }
+        
+        .drop-hint {
+          position: sticky;
+          top: 0;
+          z-index: 1;
+          padding: 8px;
+          margin-bottom: 10px;
+          text-align: center;
+          color: #0066cc;
+          font-weight: 500;
+          background-color: rgba(255, 255, 255, 0.9);
+          border-radius: 8px;
+          pointer-events: none;
+        }
+        
+        .pending-files {
+          display: flex;
+          gap: 8px;
+          padding: 8px 10px;
+          overflow-x: auto;
+          background-color: #f0f0f0;
+          border-top: 1px solid #ddd;
+        }
+        
+        .pending-file {
+          position: relative;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          flex-shrink: 0;
+          width: 90px;
+          padding: 6px;
+          background-color: #fff;
+          border: 1px solid #ddd;
+          border-radius: 8px;
+          font-size: 11px;
+        }
+        
+        .pending-thumbnail {
+          width: 60px;
+          height: 60px;
+          object-fit: cover;
+          border-radius: 4px;
+        }
+        
+        .pending-icon {
+          font-size: 36px;
+          line-height: 60px;
+        }
+        
+        .pending-name {
+          max-width: 100%;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        
+        .pending-size {
+          color: #888;
+        }
+        
+        .pending-remove {
+          position: absolute;
+          top: 2px;
+          right: 2px;
+          width: 18px;
+          height: 18px;
+          padding: 0;
+          border: none;
+          border-radius: 50%;
+          background-color: rgba(0, 0, 0, 0.5);
+          color: #fff;
+          font-size: 12px;
+          line-height: 18px;
+          cursor: pointer;
+        }
+        
         .message {
           margin-bottom: 15px;
           max-width: 70%;
@@ -509,6 +1277,154 @@ export default function TransferPage({
           padding: 8px;
         }
         
+        .file-integrity {
+          font-size: 12px;
+          margin: 5px 0;
+        }
+        
+        .file-integrity.verified {
+          color: #27ae60;
+        }
+        
+        .file-integrity.failed {
+          color: #e74c3c;
+        }
+        
+        .file-saved {
+          font-size: 12px;
+          color: #666;
+        }
+        
+        .request-title {
+          font-weight: 500;
+          margin-bottom: 5px;
+        }
+        
+        .request-files {
+          list-style: none;
+          margin: 0 0 8px;
+          padding: 0;
+          font-size: 13px;
+        }
+        
+        .request-files li {
+          display: flex;
+          justify-content: space-between;
+        }
+        
+        .request-files .file-size {
+          margin-left: 10px;
+          color: #888;
+        }
+        
+        .request-status {
+          font-size: 12px;
+          color: #888;
+        }
+        
+        .security-code {
+          font-size: 13px;
+          color: #666;
+        }
+        
+        .security-code-value {
+          font-size: 16px;
+          letter-spacing: 2px;
+        }
+        
+        .participants-bar {
+          margin-bottom: 10px;
+          font-size: 13px;
+          color: #666;
+        }
+        
+        .room-invite {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin-bottom: 8px;
+        }
+        
+        .room-id {
+          font-family: monospace;
+          color: #333;
+        }
+        
+        .participant-list {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-wrap: wrap;
+          gap: 8px;
+        }
+        
+        .participant {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          padding: 4px 10px;
+          background-color: #f0f0f0;
+          border-radius: 15px;
+        }
+        
+        .participant-id {
+          font-family: monospace;
+          color: #333;
+        }
+        
+        .participant-code {
+          letter-spacing: 1px;
+        }
+        
+        .participant-device {
+          font-weight: 500;
+          color: #333;
+        }
+        
+        .participant-trusted {
+          font-size: 12px;
+          color: #f39c12;
+        }
+        
+        .participant-route {
+          padding: 1px 8px;
+          border-radius: 10px;
+          font-size: 12px;
+          color: #fff;
+        }
+        
+        .route-direct {
+          background-color: #2e7d32;
+        }
+        
+        .route-stun {
+          background-color: #1976d2;
+        }
+        
+        .route-relay {
+          background-color: #f57c00;
+        }
+        
+        .route-websocket {
+          background-color: #c0392b;
+        }
+        
+        .transfer-peer,
+        .message-peer {
+          color: #999;
+        }
+        
+        .auto-accept-toggle {
+          display: inline-flex;
+          align-items: center;
+          gap: 5px;
+          font-size: 13px;
+          color: #666;
+          margin-right: 10px;
+          cursor: pointer;
+        }
+        
         .file-direction {
           font-size: 12px;
           color: #888;
@@ -533,6 +1449,78 @@ export default function TransferPage({
           padding: 10px;
           background-color: #f9f9f9;
           border-top: 1px solid #eee;
+          max-height: 40vh;
+          overflow-y: auto;
+        }
+        
+        .transfer-row + .transfer-row {
+          margin-top: 8px;
+        }
+        
+        .queue-toolbar {
+          display: flex;
+          justify-content: flex-end;
+          margin-bottom: 8px;
+        }
+        
+        .queue-batch {
+          margin-bottom: 10px;
+        }
+        
+        .queue-batch-header,
+        .queue-item-footer {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 8px;
+        }
+        
+        .queue-batch-header {
+          font-size: 13px;
+          font-weight: 500;
+          margin-bottom: 6px;
+        }
+        
+        .queue-actions {
+          display: flex;
+          gap: 4px;
+        }
+        
+        .queue-item-footer .transfer-status {
+          text-align: left;
+        }
+        
+        .queue-paused .progress-bar {
+          background-color: #f0ad4e;
+        }
+        
+        .queue-done .progress-bar {
+          background-color: #2e7d32;
+        }
+        
+        .queue-failed .progress-bar,
+        .queue-cancelled .progress-bar {
+          background-color: #d9534f;
+        }
+        
+        .queue-cancelled .transfer-name {
+          text-decoration: line-through;
+          color: #999;
+        }
+        
+        .transfer-row-info {
+          display: flex;
+          justify-content: space-between;
+          font-size: 13px;
+          color: #333;
+          margin-bottom: 4px;
+        }
+        
+        .transfer-name {
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+          margin-right: 10px;
         }
         
         .transfer-progress {
@@ -0,0 +1,60 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { announcePresence, leavePresence, NearbyDevice, PRESENCE_INTERVAL } from '@/lib/discovery';
+
+interface NearbyDevicesOptions {
+  // Our peer ID, nothing is announced until it is known
+  peerId: string;
+  name: string;
+  room: string;
+  enabled: boolean;
+}
+
+/**
+ * Announce this device while discovery is on and list the devices around it
+ * @param options Device details and discovery settings
+ * @returns Nearby devices and the last error, if any
+ */
+export default function useNearbyDevices({ peerId, name, room, enabled }: NearbyDevicesOptions) {
+  const [devices, setDevices] = useState<NearbyDevice[]>([]);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    setDevices([]);
+    setError('');
+    if (!enabled || !peerId) return;
+
+    const presence = { peerId, name, room: room || undefined };
+    let stopped = false;
+
+    const announce = async () => {
+      try {
+        const found = await announcePresence(presence);
+        if (!stopped) {
+          setDevices(found);
+          setError('');
+        }
+      } catch (err) {
+        console.warn('Presence announcement failed:', err);
+        if (!stopped) setError(err instanceof Error ? err.message : 'Discovery unavailable');
+      }
+    };
+
+    // Closing the tab does not run effect cleanups, leave from pagehide too
+    const handlePageHide = () => leavePresence(presence);
+
+    announce();
+    const intervalId = setInterval(announce, PRESENCE_INTERVAL);
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      stopped = true;
+      clearInterval(intervalId);
+      window.removeEventListener('pagehide', handlePageHide);
+      leavePresence(presence);
+    };
+  }, [peerId, name, room, enabled]);
+
+  return { devices, error };
+}
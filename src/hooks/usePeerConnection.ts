@@ -1,82 +1,932 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import type { DataConnection, Peer, PeerError, PeerErrorType } from 'peerjs';
+import { sendFileInChunks } from '@/lib/fileSender';
+import { createFileId, FileDescription, TransferRequestMessage, FileCancelMessage } from '@/lib/transferProtocol';
+import { createSecureChannel, SecureChannel } from '@/lib/secureChannel';
+import { createChallenge, respondToChallenge, verifyResponse, AuthMessage, AuthChallengeMessage, PendingChallenge } from '@/lib/sessionAuth';
+import { AppMessage, HelloMessage, createHello, isCompatibleVersion, parseMessage } from '@/lib/protocol';
+import { createProgress, recordProgress, TransferProgress, TransferDirection } from '@/lib/transferProgress';
+import { getPeerServerOptions } from '@/lib/peerConfig';
+import { SelectedFile } from '@/lib/folderTransfer';
+import { QueueItem, QueueItemState, canPause, isFinishedState, moveQueueItem } from '@/lib/transferQueue';
+import { normalizePairingCode, resolvePairingCode } from '@/lib/pairingCode';
+import { loadIceServers, getConnectionRoute, ConnectionRoute, ICE_CANDIDATE_POOL_SIZE } from '@/lib/iceConfig';
+import { ConnectionState, getPeerErrorFailure } from '@/lib/connectionState';
+import { Heartbeat, ConnectionQuality, startHeartbeat, getConnectionQuality } from '@/lib/heartbeat';
+import { DataChannelLike, ConnectionError, isRelayAvailable, isRelayConnection, openRelayConnection } from '@/lib/relayTransport';
+import { answerStatsRequests, summarizeConnectionStats } from '@/lib/diagnostics';
+import {
+  DeviceIdentity,
+  DeviceHelloMessage,
+  TrustedDevice,
+  isRememberingDevices,
+  setRememberingDevices,
+  getDeviceIdentity,
+  setDeviceName,
+  createDeviceHello,
+  verifyDeviceHello,
+  isSamePublicKey,
+  listTrustedDevices,
+  saveTrustedDevice,
+  removeTrustedDevice
+} from '@/lib/deviceIdentity';
+
+// How often progress state is pushed to React while chunks stream in
+const PROGRESS_UPDATE_INTERVAL = 250;
+
+// How long a resumed transfer waits for the receiver to report its offset
+const RESUME_ACK_TIMEOUT = 10000;
+
+// How long a remembered device has to prove its identity before it is dropped
+const DEVICE_HELLO_TIMEOUT = 10000;
+
+// How long a connection attempt may take to open
+const CONNECTION_TIMEOUT = 20000;
+
+// Delays between dialing a lost peer again, one entry per attempt. The last
+// attempt runs past the connection timeout so it can fall back to the relay.
+const REDIAL_DELAYS = [1000, 2000, 4000, 8000, 30000];
+
+// How long the side that was dialed waits for the lost peer to dial again
+const REDIAL_WAIT = REDIAL_DELAYS.reduce((total, delay) => total + delay, 0) + CONNECTION_TIMEOUT;
+
+// Attempts at reaching the broker again after losing it
+const BROKER_RECONNECT_ATTEMPTS = 5;
+
+// Attempts at registering our previous ID again, the broker frees it once it notices the old socket is gone
+const ID_RECLAIM_ATTEMPTS = 3;
+const ID_RECLAIM_DELAY = 5000;
+
+// A lost connection that is being restored
+interface PendingRedial {
+  // Whether we dial, only the side that started the connection does
+  dial: boolean;
+  attempt: number;
+  timer: ReturnType<typeof setTimeout>;
+  // Latest attempt, closed when the next one starts
+  conn: DataChannelLike | null;
+}
+
+// A file in the outgoing queue, kept until it is cleared from the list
+interface OutgoingTransfer {
+  fileId: string;
+  file: File;
+  peerId: string;
+  batchId: string;
+  path?: string;
+  ackedOffset: number;
+  state: QueueItemState;
+  // Set once the offer went out, later runs resume from the receiver's offset
+  started: boolean;
+  // Stops the running send when the item is paused or cancelled
+  abort: AbortController | null;
+  // Resolves the promise returned by sendFile, cleared once called
+  settle: ((sent: boolean) => void) | null;
+}
+
+// Peer that accepted a transfer request, with the IDs to send its files under
+export interface AcceptedTransfer {
+  peerId: string;
+  requestId: string;
+  fileIds: string[];
+}
+
+// A connected, authenticated remote device
+export interface Participant {
+  peerId: string;
+  securityCode: string;
+  // Null until the active candidate pair is known
+  route: ConnectionRoute | null;
+  // Set once the device proved it owns its stable ID
+  device: ParticipantDevice | null;
+  // Last heartbeat round trip in milliseconds, null until measured
+  rtt: number | null;
+  quality: ConnectionQuality | null;
+}
+
+export interface ParticipantDevice {
+  name: string;
+  // Whether the user remembered this device and it signed with the key stored for it
+  trusted: boolean;
+}
 
 interface PeerConnectionOptions {
-  onConnection?: (connection: any) => void;
-  onData?: (data: any) => void;
+  onConnection?: (connection: DataChannelLike) => void;
+  onData?: (data: AppMessage, peerId: string) => void;
   onConnectionClose?: () => void;
-  onConnectionError?: (error: any) => void;
+  onConnectionError?: (error: ConnectionError) => void;
+  // Unanswered heartbeats before a silent peer is disconnected
+  maxMissedHeartbeats?: number;
+}
+
+/**
+ * Create a PeerJS instance using the configured broker and ICE servers
+ * @param id ID to register, or empty for one picked by the broker
+ * @returns Peer that is registering with the broker
+ */
+async function createPeer(id: string = ''): Promise<Peer> {
+  // PeerJS needs browser APIs, so it is only loaded on the client, in its own chunk
+  const [{ Peer }, iceServers] = await Promise.all([import('peerjs'), loadIceServers()]);
+  return new Peer(id, {
+    ...getPeerServerOptions(),
+    config: {
+      iceServers,
+      iceCandidatePoolSize: ICE_CANDIDATE_POOL_SIZE
+    },
+    debug: 2 // Increase debug information level
+  });
+}
+
+/**
+ * Give the next connection a peer dials ICE servers whose credentials are still valid
+ * @param peer Peer about to dial
+ */
+async function refreshIceServers(peer: Peer): Promise<void> {
+  const iceServers = await loadIceServers();
+  // PeerJS reads the config each time it creates an RTCPeerConnection
+  if (peer.options.config) peer.options.config.iceServers = iceServers;
 }
 
 export default function usePeerConnection(options: PeerConnectionOptions = {}) {
   const [myPeerId, setMyPeerId] = useState<string>('');
-  const [connection, setConnection] = useState<any>(null);
-  const [connectionStatus, setConnectionStatus] = useState<string>('Not connected');
-  const peerRef = useRef<any>(null);
+  const [connection, setConnection] = useState<DataChannelLike | null>(null);
+  // Encrypted channels of authenticated peers, keyed by peer ID, used for all sends
+  const channelsRef = useRef<Map<string, SecureChannel>>(new Map());
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  // Candidate pair type of each connection: direct, STUN-reflexive or relayed
+  const routesRef = useRef<Map<string, ConnectionRoute>>(new Map());
+  // Room mode keeps every incoming connection instead of replacing the previous one
+  const [roomMode, setRoomModeState] = useState<boolean>(false);
+  const roomModeRef = useRef<boolean>(false);
+  // Emoji code derived from both public keys of the latest connection, compared by the users
+  const [securityCode, setSecurityCode] = useState<string>('');
+  // Optional passphrase: required from joiners, and used to answer a host's challenge
+  const [sessionPassphrase, setSessionPassphraseState] = useState<string>('');
+  const passphraseRef = useRef<string>('');
+  // Set when the remote host asked for a passphrase we do not have yet
+  const [passphraseRequired, setPassphraseRequired] = useState<boolean>(false);
+  // Peer from a link that says a passphrase is needed, dialed once the user entered it
+  const linkTargetRef = useRef<string | null>(null);
+  const pendingChallengeRef = useRef<{ channel: SecureChannel; challenge: AuthChallengeMessage } | null>(null);
+  const [connectionState, setConnectionState] = useState<ConnectionState>({ status: 'initializing' });
+  const peerRef = useRef<Peer | null>(null);
+  // Peer ID we dialed last, so a failed attempt can be retried
+  const lastTargetRef = useRef<string>('');
+  // ID the broker gave us last, claimed again after losing the broker
+  const myPeerIdRef = useRef<string>('');
+  // Lost connections being restored, keyed by peer ID
+  const redialsRef = useRef<Map<string, PendingRedial>>(new Map());
+  // Connections closed on purpose, they are not dialed again
+  const deliberateClosesRef = useRef<WeakSet<DataChannelLike>>(new WeakSet());
   const [connected, setConnected] = useState<boolean>(false);
-  const [peerLoaded, setPeerLoaded] = useState<boolean>(false);
   // 存储尝试重连次数，避免无限重连
   const reconnectAttempts = useRef<number>(0);
   // 存储handleDisconnect函数的引用
-  const handleDisconnectRef = useRef<any>(null);
+  const handleDisconnectRef = useRef<(() => void) | null>(null);
   // 存储setupConnection函数的引用
-  const setupConnectionRef = useRef<any>(null);
+  const setupConnectionRef = useRef<((conn: DataChannelLike, incoming?: boolean) => void) | null>(null);
+  // In-flight file transfers in both directions, keyed by file ID
+  const [transfers, setTransfers] = useState<TransferProgress[]>([]);
+  const transfersRef = useRef<Map<string, TransferProgress>>(new Map());
+  const progressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Outgoing files in sending order; unfinished ones are resumed after reconnecting
+  const outgoingTransfersRef = useRef<OutgoingTransfer[]>([]);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  // Starts the next queued file for a peer, behind a ref because finished sends call it again
+  const pumpQueueRef = useRef<(peerId: string) => void>(() => {});
+  // Resumed transfers waiting for the receiver's acknowledged offset
+  const ackWaitersRef = useRef<Map<string, (offset: number) => void>>(new Map());
+  // Transfer requests waiting for the receiver to accept or decline
+  const responseWaitersRef = useRef<Map<string, { peerId: string; resolve: (accepted: boolean) => void }>>(new Map());
+  // Identity of this device, only loaded while remembering devices is enabled
+  const [deviceIdentity, setDeviceIdentity] = useState<DeviceIdentity | null>(null);
+  const deviceIdentityRef = useRef<DeviceIdentity | null>(null);
+  // The peer is not created before we know whether to register the stable ID
+  const [identityLoaded, setIdentityLoaded] = useState<boolean>(false);
+  const [trustedDevices, setTrustedDevices] = useState<TrustedDevice[]>([]);
+  const trustedDevicesRef = useRef<TrustedDevice[]>([]);
+  // Verified hellos of connected devices, keyed by peer ID
+  const remoteDevicesRef = useRef<Map<string, DeviceHelloMessage>>(new Map());
+  // Channels on which a remembered device signed with the key stored for it
+  const verifiedChannelsRef = useRef<WeakSet<SecureChannel>>(new WeakSet());
+  // Heartbeat results of connected devices, keyed by peer ID
+  const latencyRef = useRef<Map<string, { rtt: number | null; missed: number }>>(new Map());
+
+  const refreshParticipants = useCallback(() => {
+    const list = Array.from(channelsRef.current.values()).map(channel => {
+      const hello = remoteDevicesRef.current.get(channel.peer);
+      const latency = latencyRef.current.get(channel.peer);
+      return {
+        peerId: channel.peer,
+        securityCode: channel.securityCode,
+        route: routesRef.current.get(channel.peer) || null,
+        device: hello ? {
+          name: hello.name,
+          trusted: verifiedChannelsRef.current.has(channel)
+        } : null,
+        rtt: latency ? latency.rtt : null,
+        quality: latency ? getConnectionQuality(latency.rtt, latency.missed) : null
+      };
+    });
+    setParticipants(list);
+    // The session stays on screen while a lost connection is restored
+    setConnected(list.length > 0 || redialsRef.current.size > 0);
+  }, []);
+
+  // Connected state describing the channels that are open now
+  const getConnectedState = useCallback((): ConnectionState => {
+    const channels = Array.from(channelsRef.current.values());
+    return {
+      status: 'connected',
+      peerId: channels[0]?.peer || '',
+      peerCount: channels.length,
+      relayed: channels.some(channel => isRelayConnection(channel.connection))
+    };
+  }, []);
+
+  // Close a connection on purpose, telling the other side not to dial it again
+  const closeChannel = useCallback((channel: SecureChannel) => {
+    deliberateClosesRef.current.add(channel.connection);
+    if (channel.open && channel.secured) {
+      channel.send({ type: 'bye' });
+      // Give the frame a moment to arrive before closing
+      setTimeout(() => channel.connection.close(), 500);
+    } else {
+      channel.connection.close();
+    }
+  }, []);
+
+  // Stop restoring a connection because it is back, or abort the attempt in flight when it is no longer wanted
+  const cancelRedial = useCallback((peerId: string, abort: boolean = false) => {
+    const redial = redialsRef.current.get(peerId);
+    if (!redial) return;
+    clearTimeout(redial.timer);
+    redialsRef.current.delete(peerId);
+    if (abort && redial.conn && channelsRef.current.get(peerId)?.connection !== redial.conn) {
+      deliberateClosesRef.current.add(redial.conn);
+      redial.conn.close();
+    }
+  }, []);
+
+  // Give up on a lost connection
+  const abandonRedial = useCallback((peerId: string) => {
+    const redial = redialsRef.current.get(peerId);
+    if (!redial) return;
+    console.log('Could not restore connection:', peerId);
+    cancelRedial(peerId, true);
+    refreshParticipants();
+    setConnectionState(channelsRef.current.size > 0
+      ? getConnectedState()
+      : { status: 'failed', reason: 'unreachable', target: redial.dial ? peerId : undefined });
+  }, [cancelRedial, refreshParticipants, getConnectedState]);
+
+  // Dial a lost peer again, and schedule the next attempt in case this one fails too
+  const redial = useCallback((peerId: string) => {
+    const pending = redialsRef.current.get(peerId);
+    if (!pending) return;
+    if (pending.attempt >= REDIAL_DELAYS.length) {
+      abandonRedial(peerId);
+      return;
+    }
+    const delay = REDIAL_DELAYS[pending.attempt];
+    pending.attempt += 1;
+    pending.timer = setTimeout(() => redial(peerId), delay);
+    setConnectionState({ status: 'reconnecting', attempt: pending.attempt, delay, peerId });
+    
+    // Our own broker connection may still be coming back, the next attempt will tell
+    const peer = peerRef.current;
+    if (!peer || !peer.open) return;
+    if (pending.conn && !pending.conn.open) {
+      deliberateClosesRef.current.add(pending.conn);
+      pending.conn.close();
+    }
+    refreshIceServers(peer).then(() => {
+      // The redial may have been cancelled or the peer replaced in the meantime
+      if (redialsRef.current.get(peerId) !== pending || peerRef.current !== peer || !peer.open) return;
+      console.log(`Dialing ${peerId} again, attempt ${pending.attempt}`);
+      pending.conn = peer.connect(peerId, { reliable: true });
+      setupConnectionRef.current?.(pending.conn);
+    });
+  }, [abandonRedial]);
+
+  // Restore a connection that dropped without either user closing it
+  const scheduleRedial = useCallback((peerId: string, dial: boolean) => {
+    cancelRedial(peerId);
+    if (dial) {
+      const delay = REDIAL_DELAYS[0];
+      redialsRef.current.set(peerId, { dial, attempt: 0, timer: setTimeout(() => redial(peerId), delay), conn: null });
+      setConnectionState({ status: 'reconnecting', attempt: 1, delay, peerId });
+    } else {
+      // The other side started the connection, so it is the one that dials again
+      redialsRef.current.set(peerId, { dial, attempt: 0, timer: setTimeout(() => abandonRedial(peerId), REDIAL_WAIT), conn: null });
+      setConnectionState({ status: 'reconnecting', attempt: 0, delay: REDIAL_WAIT, peerId });
+    }
+    refreshParticipants();
+  }, [cancelRedial, redial, abandonRedial, refreshParticipants]);
+
+  // Push tracked progress to state, throttled so every chunk does not re-render
+  const flushTransfers = useCallback((immediate: boolean = false) => {
+    if (immediate) {
+      if (progressTimerRef.current) {
+        clearTimeout(progressTimerRef.current);
+        progressTimerRef.current = null;
+      }
+      setTransfers(Array.from(transfersRef.current.values()));
+      return;
+    }
+    if (progressTimerRef.current) return;
+    progressTimerRef.current = setTimeout(() => {
+      progressTimerRef.current = null;
+      setTransfers(Array.from(transfersRef.current.values()));
+    }, PROGRESS_UPDATE_INTERVAL);
+  }, []);
+
+  const startTransfer = useCallback((fileId: string, name: string, size: number, direction: TransferDirection, peerId: string) => {
+    transfersRef.current.set(fileId, createProgress(fileId, name, size, direction, peerId));
+    flushTransfers(true);
+  }, [flushTransfers]);
+
+  const updateTransfer = useCallback((fileId: string, transferredBytes: number) => {
+    const progress = transfersRef.current.get(fileId);
+    if (!progress) return;
+    transfersRef.current.set(fileId, recordProgress(progress, transferredBytes));
+    flushTransfers();
+  }, [flushTransfers]);
+
+  const finishTransfer = useCallback((fileId: string) => {
+    if (transfersRef.current.delete(fileId)) {
+      flushTransfers(true);
+    }
+  }, [flushTransfers]);
+
+  // Drop progress for one peer, or for everyone when no peer is given
+  const clearTransfers = useCallback((peerId?: string) => {
+    transfersRef.current.forEach((progress, fileId) => {
+      if (!peerId || progress.peerId === peerId) {
+        transfersRef.current.delete(fileId);
+      }
+    });
+    flushTransfers(true);
+  }, [flushTransfers]);
+
+  // Push the outgoing queue to state
+  const flushQueue = useCallback(() => {
+    setQueue(outgoingTransfersRef.current.map(outgoing => ({
+      fileId: outgoing.fileId,
+      batchId: outgoing.batchId,
+      peerId: outgoing.peerId,
+      name: outgoing.file.name,
+      path: outgoing.path,
+      size: outgoing.file.size,
+      state: outgoing.state,
+      ackedBytes: outgoing.ackedOffset
+    })));
+  }, []);
+
+  const setOutgoingState = useCallback((outgoing: OutgoingTransfer, state: QueueItemState) => {
+    outgoing.state = state;
+    if (isFinishedState(state) && outgoing.settle) {
+      outgoing.settle(state === 'done');
+      outgoing.settle = null;
+    }
+    flushQueue();
+  }, [flushQueue]);
+
+  // Cancel a pending progress update on unmount
+  useEffect(() => {
+    return () => {
+      if (progressTimerRef.current) clearTimeout(progressTimerRef.current);
+    };
+  }, []);
+
+  // Track receive progress and sender acknowledgements from the frames passing through the connection
+  const trackIncomingFrame = useCallback((data: AppMessage, peerId: string) => {
+    if (data?.type === 'file-offer') {
+      startTransfer(data.fileId, data.name, data.size, 'receiving', peerId);
+    } else if (data?.type === 'file-chunk') {
+      const progress = transfersRef.current.get(data.fileId);
+      if (progress && data.data) {
+        // Chunks arrive in order, so the end of the latest one is the received total
+        updateTransfer(data.fileId, Math.max(progress.transferredBytes, data.offset + data.data.byteLength));
+      }
+    } else if (data?.type === 'file-complete') {
+      finishTransfer(data.fileId);
+    } else if (data?.type === 'file-cancel') {
+      finishTransfer(data.fileId);
+      // The receiver could not store a file we are sending
+      const outgoing = outgoingTransfersRef.current.find(item => item.fileId === data.fileId);
+      if (outgoing && outgoing.peerId === peerId && !isFinishedState(outgoing.state)) {
+        console.warn('Receiver gave up on file:', outgoing.file.name);
+        outgoing.abort?.abort();
+        setOutgoingState(outgoing, 'failed');
+      }
+    } else if (data?.type === 'transfer-response') {
+      const waiter = responseWaitersRef.current.get(data.requestId);
+      if (waiter && waiter.peerId === peerId) {
+        responseWaitersRef.current.delete(data.requestId);
+        waiter.resolve(!!data.accepted);
+      }
+    } else if (data?.type === 'file-ack') {
+      const waiter = ackWaitersRef.current.get(data.fileId);
+      if (waiter) {
+        ackWaitersRef.current.delete(data.fileId);
+        waiter(data.offset);
+      }
+      const outgoing = outgoingTransfersRef.current.find(item => item.fileId === data.fileId);
+      if (outgoing && outgoing.peerId === peerId) {
+        outgoing.ackedOffset = Math.max(outgoing.ackedOffset, data.offset);
+        flushQueue();
+      }
+    }
+  }, [startTransfer, updateTransfer, finishTransfer, flushQueue, setOutgoingState]);
+
+  // Wait for the receiver to report where a resumed transfer should continue, or for the run to be stopped
+  const waitForResumeOffset = useCallback((fileId: string, signal?: AbortSignal) => {
+    return new Promise<number>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+        // A newer run of the same file may have registered its own waiter
+        if (ackWaitersRef.current.get(fileId) === waiter) ackWaitersRef.current.delete(fileId);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(new Error('Transfer stopped'));
+      };
+      const waiter = (offset: number) => {
+        cleanup();
+        resolve(offset);
+      };
+      const timeoutId = setTimeout(() => {
+        cleanup();
+        reject(new Error('Receiver did not acknowledge resumed transfer'));
+      }, RESUME_ACK_TIMEOUT);
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+      ackWaitersRef.current.set(fileId, waiter);
+    });
+  }, []);
+
+  // Stream a queued file over a connection, tracking its progress
+  const runOutgoingTransfer = useCallback(async (channel: SecureChannel, outgoing: OutgoingTransfer) => {
+    const abort = new AbortController();
+    outgoing.abort = abort;
+    setOutgoingState(outgoing, 'sending');
+    try {
+      await sendFileInChunks(channel, outgoing.file, {
+        fileId: outgoing.fileId,
+        resume: outgoing.started,
+        waitForResumeOffset,
+        getAckedOffset: () => outgoing.ackedOffset,
+        signal: abort.signal,
+        onOffer: (offer) => {
+          outgoing.started = true;
+          startTransfer(offer.fileId, offer.name, offer.size, 'sending', outgoing.peerId);
+        },
+        onProgress: (sentBytes) => {
+          updateTransfer(outgoing.fileId, sentBytes);
+        }
+      });
+      // A pause that came in after the last chunk does not matter any more
+      if (outgoing.abort === abort && outgoing.state !== 'cancelled') {
+        setOutgoingState(outgoing, 'done');
+      }
+    } catch (err) {
+      if (abort.signal.aborted || outgoing.abort !== abort) {
+        // Paused or cancelled, the state is already set
+      } else if (!channel.open) {
+        // Picked up again when the peer reconnects
+        setOutgoingState(outgoing, 'queued');
+      } else {
+        console.error('Failed to send file:', outgoing.file.name, err);
+        setOutgoingState(outgoing, 'failed');
+      }
+    } finally {
+      // A file resumed before this run noticed the pause is already handled by a newer run
+      if (outgoing.abort === abort) {
+        outgoing.abort = null;
+        finishTransfer(outgoing.fileId);
+      }
+      pumpQueueRef.current(outgoing.peerId);
+    }
+  }, [waitForResumeOffset, startTransfer, updateTransfer, finishTransfer, setOutgoingState]);
+
+  // Send a peer's files one at a time, in queue order
+  const pumpQueue = useCallback((peerId: string) => {
+    const items = outgoingTransfersRef.current.filter(outgoing => outgoing.peerId === peerId);
+    if (items.some(outgoing => outgoing.state === 'sending')) return;
+    const next = items.find(outgoing => outgoing.state === 'queued');
+    const channel = channelsRef.current.get(peerId);
+    if (!next || !channel || !channel.open) return;
+    runOutgoingTransfer(channel, next);
+  }, [runOutgoingTransfer]);
+
+  useEffect(() => {
+    pumpQueueRef.current = pumpQueue;
+  }, [pumpQueue]);
+
+  // Continue transfers to this peer that were interrupted by a dropped connection
+  const resumeTransfers = useCallback((channel: SecureChannel) => {
+    outgoingTransfersRef.current.forEach(outgoing => {
+      // Files sent in full but not confirmed may have lost their last chunks, or only the final ack;
+      // a receiver that has the whole file answers with its size and the run just sends file-complete
+      if (outgoing.peerId === channel.peer && outgoing.state === 'done' && outgoing.ackedOffset < outgoing.file.size) {
+        console.log('Resuming transfer:', outgoing.file.name, 'from offset', outgoing.ackedOffset);
+        outgoing.state = 'queued';
+      }
+    });
+    flushQueue();
+    pumpQueue(channel.peer);
+  }, [flushQueue, pumpQueue]);
 
-  // Setup connection
-  const setupConnection = useCallback((conn: any) => {
+  // Answer a host's passphrase challenge
+  const answerChallenge = useCallback((channel: SecureChannel, challenge: AuthChallengeMessage) => {
+    if (!channel.sessionHash) return;
+    setPassphraseRequired(false);
+    setConnectionState({ status: 'connecting', step: 'authenticating', peerId: channel.peer });
+    try {
+      channel.send(respondToChallenge(passphraseRef.current, channel.sessionHash, challenge));
+    } catch (err) {
+      console.warn('Invalid passphrase challenge:', err);
+      setConnectionState({ status: 'failed', reason: 'secure-channel', detail: 'invalid passphrase challenge' });
+      channel.connection.close();
+    }
+  }, []);
+
+  // Look up which candidate pair a connection uses and show it on the participant
+  const updateRoute = useCallback(async (channel: SecureChannel) => {
+    try {
+      const route = isRelayConnection(channel.connection)
+        ? 'websocket'
+        : await getConnectionRoute(channel.connection.peerConnection);
+      if (!route || routesRef.current.get(channel.peer) === route) return;
+      routesRef.current.set(channel.peer, route);
+      if (channelsRef.current.get(channel.peer) === channel) {
+        refreshParticipants();
+      }
+    } catch (err) {
+      console.warn('Could not read connection stats:', err);
+    }
+  }, [refreshParticipants]);
+
+  const updateTrustedDevices = useCallback((devices: TrustedDevice[]) => {
+    trustedDevicesRef.current = devices;
+    setTrustedDevices(devices);
+    refreshParticipants();
+  }, [refreshParticipants]);
+
+  // Prove our stable ID to the other device, if we have one
+  const sendDeviceHello = useCallback(async (channel: SecureChannel) => {
+    const identity = deviceIdentityRef.current;
+    if (!identity || !channel.sessionHash) return;
+    try {
+      channel.send(await createDeviceHello(identity, channel.sessionHash));
+    } catch (err) {
+      console.error('Failed to sign device hello:', err);
+    }
+  }, []);
+
+  // Check the other device's proof of its stable ID
+  const handleDeviceHello = useCallback(async (channel: SecureChannel, hello: DeviceHelloMessage) => {
+    const trusted = trustedDevicesRef.current.find(device => device.peerId === channel.peer);
+    const verified = !!channel.sessionHash && await verifyDeviceHello(hello, channel.peer, channel.sessionHash);
+    if (!verified || (trusted && !isSamePublicKey(trusted.publicKey, hello.publicKey))) {
+      console.warn('Device failed to prove its identity:', channel.peer);
+      if (trusted) {
+        setConnectionState({ status: 'failed', reason: 'unverified-device', detail: trusted.name });
+        channel.connection.close();
+      }
+      return;
+    }
+    remoteDevicesRef.current.set(channel.peer, hello);
+    if (trusted) {
+      verifiedChannelsRef.current.add(channel);
+      // Keep the name the device uses now and when we last saw it
+      updateTrustedDevices(saveTrustedDevice({ peerId: channel.peer, name: hello.name, publicKey: hello.publicKey }));
+    } else {
+      refreshParticipants();
+    }
+  }, [refreshParticipants, updateTrustedDevices]);
+
+  // Setup connection; incoming connections are the ones that must pass the passphrase check
+  const setupConnection = useCallback((conn: DataChannelLike, incoming: boolean = false) => {
     setConnection(conn);
     
     console.log('Setting up connection:', conn.peer);
     
+    // No application data is exchanged until the passphrase check has passed
+    let authenticated = false;
+    let pendingChallenge: PendingChallenge | null = null;
+    // The other side's handshake, nothing else is accepted before it
+    let remoteHello: HelloMessage | null = null;
+    // Detects a peer that went silent without closing the connection
+    let heartbeat: Heartbeat | null = null;
+    // Set when the other side said it is closing the connection on purpose
+    let closedByPeer = false;
+    // Peer to dial again after a failure, only for connections we started
+    const target = incoming ? undefined : conn.peer;
+    
+    const completeConnection = () => {
+      authenticated = true;
+      cancelRedial(conn.peer);
+      // Outside room mode a new connection replaces the previous one
+      channelsRef.current.forEach(other => {
+        if (other !== channel && (!roomModeRef.current || other.peer === conn.peer)) closeChannel(other);
+      });
+      channelsRef.current.set(conn.peer, channel);
+      refreshParticipants();
+      setPassphraseRequired(false);
+      setConnectionState(getConnectedState());
+      if (options.onConnection) options.onConnection(conn);
+      resumeTransfers(channel);
+      if (remoteHello?.capabilities.includes('device-identity')) {
+        sendDeviceHello(channel);
+      }
+      if (remoteHello?.capabilities.includes('heartbeat')) {
+        heartbeat = startHeartbeat({
+          send: message => channel.send(message),
+          onUpdate: (rtt, missed) => {
+            latencyRef.current.set(conn.peer, { rtt, missed });
+            if (channelsRef.current.get(conn.peer) === channel) refreshParticipants();
+          },
+          onDead: () => {
+            console.warn('Peer stopped answering heartbeats:', conn.peer);
+            setConnectionState({ status: 'failed', reason: 'unreachable', target });
+            conn.close();
+          }
+        }, options.maxMissedHeartbeats);
+      }
+      
+      // A remembered device must prove it is the same device, not something else using its ID
+      const trusted = trustedDevicesRef.current.find(device => device.peerId === conn.peer);
+      if (trusted) {
+        setTimeout(() => {
+          if (channelsRef.current.get(conn.peer) === channel && !remoteDevicesRef.current.has(conn.peer)) {
+            console.warn('Remembered device did not prove its identity:', conn.peer);
+            setConnectionState({ status: 'failed', reason: 'unverified-device', detail: trusted.name });
+            deliberateClosesRef.current.add(conn);
+            conn.close();
+          }
+        }, DEVICE_HELLO_TIMEOUT);
+      }
+      
+      // The selected pair can change later, e.g. when ICE falls back to a relay
+      updateRoute(channel);
+      const peerConnection = conn.peerConnection;
+      peerConnection?.addEventListener('iceconnectionstatechange', () => {
+        const state = peerConnection.iceConnectionState;
+        if (state === 'connected' || state === 'completed') {
+          updateRoute(channel);
+        }
+      });
+    };
+    
+    // Start the passphrase check; the host does so once it knows the joiner's version
+    const startAuthentication = () => {
+      if (passphraseRef.current && channel.sessionHash) {
+        pendingChallenge = createChallenge(passphraseRef.current, channel.sessionHash);
+        channel.send(pendingChallenge.challenge);
+        setConnectionState({ status: 'connecting', step: 'authenticating', peerId: conn.peer });
+      } else {
+        channel.send({ type: 'auth-result', ok: true });
+        completeConnection();
+      }
+    };
+    
+    const rejectVersion = (version: number) => {
+      console.warn('Incompatible protocol version', version, 'from', conn.peer);
+      setConnectionState({ status: 'failed', reason: 'incompatible-version' });
+      conn.close();
+    };
+    
+    // Handle the version handshake
+    const handleHello = (hello: HelloMessage) => {
+      if (remoteHello) return;
+      if (!isCompatibleVersion(hello.version)) {
+        rejectVersion(hello.version);
+        return;
+      }
+      remoteHello = hello;
+      if (incoming) {
+        startAuthentication();
+      }
+    };
+    
+    // Handle the passphrase check frames, as host or as joiner
+    const handleAuthFrame = (data: AuthMessage) => {
+      if (incoming && data.type === 'auth-response' && pendingChallenge && channel.sessionHash) {
+        const pending = pendingChallenge;
+        pendingChallenge = null;
+        if (verifyResponse(pending, channel.sessionHash, data)) {
+          channel.send({ type: 'auth-result', ok: true });
+          completeConnection();
+        } else {
+          console.log('Rejected connection with wrong passphrase:', conn.peer);
+          channel.send({ type: 'auth-result', ok: false });
+          setConnectionState({ status: 'failed', reason: 'rejected-passphrase' });
+          // Give the result a moment to arrive before closing
+          setTimeout(() => conn.close(), 500);
+        }
+      } else if (!incoming && data.type === 'auth-challenge') {
+        if (passphraseRef.current) {
+          answerChallenge(channel, data);
+        } else {
+          pendingChallengeRef.current = { channel, challenge: data };
+          setPassphraseRequired(true);
+          setConnectionState({ status: 'connecting', step: 'passphrase-required', peerId: conn.peer });
+        }
+      } else if (!incoming && data.type === 'auth-result') {
+        pendingChallengeRef.current = null;
+        if (data.ok) {
+          completeConnection();
+        } else {
+          setConnectionState({ status: 'failed', reason: 'wrong-passphrase', target });
+        }
+      }
+    };
+    
+    // Nothing but the key exchange crosses the connection unencrypted
+    const channel = createSecureChannel(conn, {
+      onFrame: (frame: unknown) => {
+        // Malformed or unknown frames are dropped instead of reaching the UI
+        const data = parseMessage(frame);
+        if (!data) {
+          console.warn('Dropping invalid frame:', (frame as { type?: unknown } | null)?.type);
+          return;
+        }
+        if (data.type === 'hello') {
+          handleHello(data);
+          return;
+        }
+        if (!remoteHello) {
+          // Peers from before the handshake start with their auth frames
+          rejectVersion(1);
+          return;
+        }
+        if (data.type === 'auth-challenge' || data.type === 'auth-response' || data.type === 'auth-result') {
+          handleAuthFrame(data);
+          return;
+        }
+        if (!authenticated) {
+          console.warn('Dropping frame received before authentication:', data.type);
+          return;
+        }
+        heartbeat?.seen();
+        if (data.type === 'bye') {
+          closedByPeer = true;
+          return;
+        }
+        if (data.type === 'ping' || data.type === 'pong') {
+          heartbeat?.handle(data);
+          return;
+        }
+        if (data.type === 'device-hello') {
+          handleDeviceHello(channel, data);
+          return;
+        }
+        if (data.type !== 'file-chunk') {
+          console.log('Received data type:', data.type);
+        }
+        trackIncomingFrame(data, conn.peer);
+        if (options.onData) options.onData(data, conn.peer);
+      },
+      onSecured: (code: string) => {
+        console.log('Connection secured:', conn.peer);
+        setSecurityCode(code);
+        // Both sides announce their version first, the host starts the passphrase check once it has the joiner's
+        channel.send(createHello());
+        setConnectionState({ status: 'connecting', step: 'handshake', peerId: conn.peer });
+      },
+      onError: (error: Error) => {
+        setConnectionState({ status: 'failed', reason: 'secure-channel', target, detail: error.message });
+        conn.close();
+      }
+    });
     conn.on('open', () => {
       console.log('Connection opened:', conn.peer);
-      setConnectionStatus(`Connected to ${conn.peer}`);
-      setConnected(true);
-      if (options.onConnection) options.onConnection(conn);
+      setConnectionState({ status: 'connecting', step: 'securing', peerId: conn.peer });
+      channel.start();
     });
     
-    conn.on('data', (data: any) => {
-      console.log('Received data type:', data?.type);
-      if (options.onData) options.onData(data);
+    conn.on('data', (data: unknown) => {
+      channel.receive(data);
     });
     
     conn.on('close', () => {
-      console.log('Connection closed');
-      setConnectionStatus('Connection closed');
-      setConnected(false);
-      setConnection(null);
+      console.log('Connection closed:', conn.peer);
+      heartbeat?.stop();
+      channel.close();
+      if (pendingChallengeRef.current?.channel === channel) {
+        pendingChallengeRef.current = null;
+        setPassphraseRequired(false);
+      }
+      const current = channelsRef.current.get(conn.peer) === channel;
+      // Dropped without either side closing it, e.g. while the network switched
+      const lost = current && authenticated && !closedByPeer && !deliberateClosesRef.current.has(conn) &&
+        !!remoteHello?.capabilities.includes('reconnect');
+      if (current) {
+        channelsRef.current.delete(conn.peer);
+        routesRef.current.delete(conn.peer);
+        remoteDevicesRef.current.delete(conn.peer);
+        latencyRef.current.delete(conn.peer);
+        refreshParticipants();
+        clearTransfers(conn.peer);
+        // Requests can no longer be answered on this connection
+        responseWaitersRef.current.forEach((waiter, requestId) => {
+          if (waiter.peerId === conn.peer) {
+            responseWaitersRef.current.delete(requestId);
+            waiter.resolve(false);
+          }
+        });
+      }
+      if (lost) {
+        scheduleRedial(conn.peer, !incoming);
+      } else if ((current || !authenticated) && !redialsRef.current.has(conn.peer)) {
+        if (channelsRef.current.size === 0) {
+          // Keep the reason when the connection was closed because it failed
+          setConnectionState(prev => prev.status === 'failed' ? prev : { status: 'failed', reason: 'closed', target });
+        } else {
+          setConnectionState(getConnectedState());
+        }
+      }
+      if (channelsRef.current.size === 0) {
+        setConnection(null);
+        setSecurityCode('');
+      }
       if (options.onConnectionClose) options.onConnectionClose();
     });
     
-    conn.on('error', (error: any) => {
+    conn.on('error', (error: ConnectionError) => {
       console.error('Connection error:', error);
-      setConnectionStatus('Connection error');
+      setConnectionState({ status: 'failed', reason: 'connection-error', target });
       if (options.onConnectionError) options.onConnectionError(error);
     });
     
-    // Add connection timeout handling
+    // Add connection timeout handling, attempts given up on are not reported
     setTimeout(() => {
-      if (conn.open === false) {
-        console.log('Connection timed out');
-        setConnectionStatus('Connection timed out, please try again');
+      if (conn.open || deliberateClosesRef.current.has(conn)) return;
+      // Both sides time out on the same connection and meet on the relay under its ID
+      if (!isRelayConnection(conn) && isRelayAvailable()) {
+        console.log('WebRTC did not connect, falling back to the relay:', conn.peer);
+        deliberateClosesRef.current.add(conn);
+        conn.close();
+        setConnectionState({ status: 'connecting', step: 'relaying', peerId: conn.peer });
+        setupConnectionRef.current?.(openRelayConnection(conn.peer, conn.connectionId), incoming);
+        return;
       }
-    }, 20000); // 20 seconds timeout
-  }, [options]);
+      console.log('Connection timed out');
+      if (isRelayConnection(conn)) {
+        deliberateClosesRef.current.add(conn);
+        conn.close();
+      }
+      setConnectionState({ status: 'failed', reason: 'timeout', target });
+    }, CONNECTION_TIMEOUT);
+  }, [options, trackIncomingFrame, clearTransfers, resumeTransfers, answerChallenge, refreshParticipants, getConnectedState, closeChannel, cancelRedial, scheduleRedial, updateRoute, sendDeviceHello, handleDeviceHello]);
 
   // 保存setupConnection函数的引用
   useEffect(() => {
     setupConnectionRef.current = setupConnection;
   }, [setupConnection]);
 
-  // Connect to peer
-  const connectToPeer = useCallback((peerId: string) => {
+  // Connect to a peer ID, or to the peer behind a pairing code
+  const connectToPeer = useCallback(async (target: string) => {
     if (!peerRef.current) {
       console.error('Peer not initialized');
       return;
     }
+    // Dialing someone else replaces a link still waiting for its passphrase
+    if (linkTargetRef.current) {
+      linkTargetRef.current = null;
+      setPassphraseRequired(false);
+    }
     
-    setConnectionStatus('Connecting...');
+    let peerId = target;
+    const code = normalizePairingCode(target);
+    if (code) {
+      setConnectionState({ status: 'connecting', step: 'resolving-code' });
+      try {
+        peerId = await resolvePairingCode(code);
+      } catch (err) {
+        console.error('Pairing code lookup failed:', err);
+        setConnectionState({
+          status: 'failed',
+          reason: 'pairing-code',
+          detail: err instanceof Error ? err.message : undefined
+        });
+        return;
+      }
+      if (!peerRef.current) return;
+    }
+    
+    lastTargetRef.current = peerId;
+    setConnectionState({ status: 'connecting', step: 'dialing', peerId });
+    await refreshIceServers(peerRef.current);
+    if (!peerRef.current) return;
     const conn = peerRef.current.connect(peerId, {
       reliable: true
     });
@@ -93,12 +943,11 @@ export default function usePeerConnection(options: PeerConnectionOptions = {}) {
     if (!peerRef.current) return;
     
     console.log('Disconnected from PeerJS server, attempting to reconnect...');
-    setConnectionStatus('Connection lost, attempting to reconnect...');
     
     // 限制重连尝试次数
-    if (reconnectAttempts.current >= 3) {
+    if (reconnectAttempts.current >= BROKER_RECONNECT_ATTEMPTS) {
       console.log('Maximum reconnection attempts reached');
-      setConnectionStatus('Unable to reconnect. Please refresh the page.');
+      setConnectionState({ status: 'failed', reason: 'reconnect-exhausted' });
       return;
     }
     
@@ -109,222 +958,460 @@ export default function usePeerConnection(options: PeerConnectionOptions = {}) {
     const backoffTime = Math.min(2000 * Math.pow(2, attempt), 10000);
     
     console.log(`Reconnection attempt ${attempt + 1}, waiting ${backoffTime/1000} seconds...`);
-    setConnectionStatus(`Connection lost, retrying in ${backoffTime/1000} seconds...`);
+    setConnectionState({ status: 'reconnecting', attempt: attempt + 1, delay: backoffTime });
     
-    // 尝试使用内置的重连方法
-    if (typeof peerRef.current.reconnect === 'function') {
-      try {
-        (peerRef.current as any).reconnect();
-        return;
-      } catch (err) {
-        console.error('Built-in reconnect failed:', err);
-      }
-    }
-    
-    // 创建新连接作为备选方案
-    try {
-      const oldPeer = peerRef.current;
-      oldPeer.destroy();
-      
-      // 等待一段时间确保旧连接完全关闭
+    // 尝试使用内置的重连方法，它会保留原来的ID
+    const oldPeer = peerRef.current;
+    if (!oldPeer.destroyed) {
       setTimeout(() => {
+        if (peerRef.current !== oldPeer || !oldPeer.disconnected) return;
         try {
-          const Peer = window.Peer;
-          if (!Peer) {
-            setConnectionStatus('PeerJS library not available');
-            return;
+          oldPeer.reconnect();
+        } catch (err) {
+          console.error('Built-in reconnect failed:', err);
+          handleDisconnectRef.current?.();
+        }
+      }, backoffTime);
+      return;
+    }
+    
+    // Register a new peer, claiming the ID the other devices know us by
+    const restorePeer = async (id: string, reclaimAttempt: number) => {
+      try {
+        const newPeer = await createPeer(id);
+        
+        // 为新创建的对等连接添加事件监听器
+        newPeer.on('open', (id: string) => {
+          reconnectAttempts.current = 0; // 重置重连尝试计数
+          myPeerIdRef.current = id;
+          setMyPeerId(id);
+          setConnectionState({ status: 'ready' });
+          console.log('PeerJS reconnection opened, ID:', id);
+        });
+        
+        newPeer.on('connection', (conn) => {
+          console.log('Connection request received after reconnect:', conn.peer);
+          // 使用ref存储的setupConnection函数
+          if (setupConnectionRef.current) {
+            setupConnectionRef.current(conn, true);
           }
-          
-          // 不指定ID，让服务器生成一个随机ID，但传递一个空字符串作为第一个参数以符合类型定义
-          const newPeer = new Peer('', {
-            config: {
-              iceServers: [
-                { urls: 'stun:stun.l.google.com:19302' },
-                { urls: 'stun:stun1.l.google.com:19302' },
-                { urls: 'stun:stun2.l.google.com:19302' },
-                { urls: 'stun:stun3.l.google.com:19302' },
-                { urls: 'stun:stun4.l.google.com:19302' },
-                { urls: 'stun:global.stun.twilio.com:3478' },
-                { urls: 'stun:stun.stunprotocol.org:3478' }
-              ],
-              iceCandidatePoolSize: 10,
-            },
-            debug: 2
-          });
-          
-          // 为新创建的对等连接添加事件监听器
-          newPeer.on('open', (id: string) => {
-            reconnectAttempts.current = 0; // 重置重连尝试计数
-            setMyPeerId(id);
-            setConnectionStatus('Reconnected, waiting for connection');
-            console.log('PeerJS reconnection opened, ID:', id);
-          });
-          
-          newPeer.on('connection', (conn: any) => {
-            console.log('Connection request received after reconnect:', conn.peer);
-            // 使用ref存储的setupConnection函数
-            if (setupConnectionRef.current) {
-              setupConnectionRef.current(conn);
-            }
-            setConnectionStatus(`Connected to ${conn.peer}`);
-          });
-          
-          newPeer.on('error', (error: any) => {
-            console.error('Peer connection error after reconnect:', error);
-            let errorMsg = 'Connection error';
-            if (error.type === 'peer-unavailable') {
-              errorMsg = 'Remote device unavailable';
-            } else if (error.type === 'network') {
-              errorMsg = 'Network connection issue';
-            } else if (error.type === 'disconnected') {
-              errorMsg = 'Disconnected from server';
-            } else if (error.type === 'server-error') {
-              errorMsg = 'Server error';
+          setConnectionState({ status: 'connecting', step: 'incoming', peerId: conn.peer });
+        });
+        
+        newPeer.on('error', (error) => {
+          console.error('Peer connection error after reconnect:', error);
+          // The broker still holds our old registration until it notices the socket is gone
+          if (error.type === 'unavailable-id' && id) {
+            // Cleared first, so destroying it is not taken for a lost broker
+            if (peerRef.current !== newPeer) return;
+            peerRef.current = null;
+            newPeer.destroy();
+            if (reclaimAttempt < ID_RECLAIM_ATTEMPTS) {
+              setTimeout(() => restorePeer(id, reclaimAttempt + 1), ID_RECLAIM_DELAY);
+            } else {
+              console.warn('Could not reclaim peer ID, registering a new one');
+              restorePeer('', 0);
             }
-            setConnectionStatus(errorMsg);
-          });
-          
-          // 为新连接添加断开事件处理
-          if (handleDisconnectRef.current) {
-            newPeer.on('disconnected', handleDisconnectRef.current);
+            return;
           }
-          
-          peerRef.current = newPeer;
-        } catch (err) {
-          console.error('Failed to create new peer connection inside timeout:', err);
-          setConnectionStatus('Reconnection failed');
+          const reason = getPeerErrorFailure(error.type);
+          setConnectionState({
+            status: 'failed',
+            reason,
+            target: reason === 'peer-unavailable' ? lastTargetRef.current || undefined : undefined
+          });
+        });
+        
+        // 为新连接添加断开事件处理
+        if (handleDisconnectRef.current) {
+          newPeer.on('disconnected', handleDisconnectRef.current);
         }
-      }, backoffTime); // Wait for the old connection to close before creating a new one
-    } catch (err) {
-      console.error('Failed to create new peer connection:', err);
-      setConnectionStatus('Reconnection failed');
-    }
+        
+        peerRef.current = newPeer;
+        setConnectionState({ status: 'registering' });
+      } catch (err) {
+        console.error('Failed to create new peer connection:', err);
+        setConnectionState({ status: 'failed', reason: 'reconnect-failed' });
+      }
+    };
+    
+    // 等待一段时间再创建新连接
+    setTimeout(() => {
+      restorePeer(deviceIdentityRef.current?.peerId || myPeerIdRef.current, 0);
+    }, backoffTime);
   }, []);
 
+  // Dial the peer of a failed connection again
+  const retryConnection = useCallback(() => {
+    if (connectionState.status === 'failed' && connectionState.target) {
+      connectToPeer(connectionState.target);
+    }
+  }, [connectionState, connectToPeer]);
+
   // 保存handleDisconnect函数的引用以避免循环依赖
   useEffect(() => {
     handleDisconnectRef.current = handleDisconnect;
   }, [handleDisconnect]);
 
-  // Send data
-  const sendData = useCallback((data: any) => {
-    if (connection) {
-      connection.send(data);
-      return true;
+  // Set the passphrase joiners must know, or that we answer a host's challenge with
+  const setSessionPassphrase = useCallback((passphrase: string) => {
+    passphraseRef.current = passphrase;
+    setSessionPassphraseState(passphrase);
+  }, []);
+
+  // Answer a pending challenge with a passphrase entered by the user, or dial the link that asked for it
+  const submitPassphrase = useCallback((passphrase: string) => {
+    setSessionPassphrase(passphrase);
+    if (!passphrase) return;
+    const pending = pendingChallengeRef.current;
+    const linkTarget = linkTargetRef.current;
+    if (pending) {
+      pendingChallengeRef.current = null;
+      answerChallenge(pending.channel, pending.challenge);
+    } else if (linkTarget) {
+      connectToPeer(linkTarget);
     }
-    return false;
-  }, [connection]);
+  }, [setSessionPassphrase, answerChallenge, connectToPeer]);
 
-  // Disconnect from current peer
-  const disconnect = useCallback(() => {
-    if (connection) {
-      connection.close();
-      setConnection(null);
-      setConnected(false);
-      setConnectionStatus('Not connected');
+  // Register with this device's stable ID so remembered devices can reconnect, takes effect right away
+  const setRememberDevice = useCallback(async (enabled: boolean) => {
+    setRememberingDevices(enabled);
+    try {
+      const identity = enabled ? await getDeviceIdentity() : null;
+      deviceIdentityRef.current = identity;
+      setDeviceIdentity(identity);
+    } catch (err) {
+      console.error('Failed to create device identity:', err);
+      setRememberingDevices(false);
     }
-  }, [connection]);
+  }, []);
 
-  // Check if Peer library is loaded
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
+  // Change the name remembered devices see for this device
+  const renameDevice = useCallback(async (name: string) => {
+    const identity = await setDeviceName(name);
+    deviceIdentityRef.current = identity;
+    setDeviceIdentity(identity);
+  }, []);
+
+  // Remember a connected device that proved its identity
+  const trustDevice = useCallback((peerId: string) => {
+    const hello = remoteDevicesRef.current.get(peerId);
+    const channel = channelsRef.current.get(peerId);
+    if (!hello || !channel) return;
+    // The hello was verified on this connection, and its key is the one stored now
+    verifiedChannelsRef.current.add(channel);
+    updateTrustedDevices(saveTrustedDevice({ peerId, name: hello.name, publicKey: hello.publicKey }));
+  }, [updateTrustedDevices]);
+
+  const forgetDevice = useCallback((peerId: string) => {
+    const channel = channelsRef.current.get(peerId);
+    if (channel) verifiedChannelsRef.current.delete(channel);
+    updateTrustedDevices(removeTrustedDevice(peerId));
+  }, [updateTrustedDevices]);
+
+  // Whether the current connection to a peer is a remembered device that proved its identity on it
+  const isVerifiedDevice = useCallback((peerId: string) => {
+    const channel = channelsRef.current.get(peerId);
+    return !!channel && verifiedChannelsRef.current.has(channel);
+  }, []);
+
+  // Switch room mode, letting several devices stay connected at once
+  const setRoomMode = useCallback((enabled: boolean) => {
+    roomModeRef.current = enabled;
+    setRoomModeState(enabled);
+  }, []);
+
+  // Channels to send to: the given peers, or every participant
+  const getTargetChannels = useCallback((peerIds?: string[]) => {
+    return Array.from(channelsRef.current.values()).filter(channel =>
+      channel.open && (!peerIds || peerIds.length === 0 || peerIds.includes(channel.peer))
+    );
+  }, []);
+
+  // Send data to the given peers, or to every participant
+  const sendData = useCallback((data: AppMessage, peerIds?: string[]) => {
+    const targets = getTargetChannels(peerIds);
+    targets.forEach(channel => channel.send(data));
+    return targets.length > 0;
+  }, [getTargetChannels]);
+
+  // Ask each receiver to accept a batch of files, resolving with the peers that accepted and their transfer IDs
+  const requestFileTransfer = useCallback((files: SelectedFile[], peerIds?: string[]) => {
+    const targets = getTargetChannels(peerIds);
+    if (files.length === 0) {
+      return Promise.resolve<AcceptedTransfer[]>([]);
+    }
+    
+    const requests = targets.map(channel => {
+      // Every receiver gets its own transfer IDs so progress and resume stay separate
+      const descriptions: FileDescription[] = files.map(({ file, path }) => ({
+        fileId: createFileId(),
+        name: file.name,
+        size: file.size,
+        dataType: file.type || 'application/octet-stream',
+        path
+      }));
+      const request: TransferRequestMessage = {
+        type: 'transfer-request',
+        requestId: createFileId(),
+        files: descriptions,
+        count: descriptions.length,
+        totalSize: descriptions.reduce((total, file) => total + file.size, 0)
+      };
+      
+      return new Promise<AcceptedTransfer | null>((resolve) => {
+        responseWaitersRef.current.set(request.requestId, {
+          peerId: channel.peer,
+          resolve: (accepted: boolean) => {
+            resolve(accepted ? {
+              peerId: channel.peer,
+              requestId: request.requestId,
+              fileIds: descriptions.map(file => file.fileId)
+            } : null);
+          }
+        });
+        channel.send(request);
+      });
+    });
     
-    function checkPeerLoaded() {
-      if (window.Peer) {
-        setPeerLoaded(true);
-        return true;
+    return Promise.all(requests).then(results =>
+      results.filter((result): result is AcceptedTransfer => result !== null)
+    );
+  }, [getTargetChannels]);
+
+  // Queue an accepted file for one peer, resolving once it is sent, or with false if it is not
+  const sendFile = useCallback((file: File, peerId: string, fileId: string, batchId: string, path?: string) => {
+    const channel = channelsRef.current.get(peerId);
+    if (!channel || !channel.open) {
+      return Promise.resolve(false);
+    }
+    return new Promise<boolean>((resolve) => {
+      outgoingTransfersRef.current.push({
+        fileId,
+        file,
+        peerId,
+        batchId,
+        path,
+        ackedOffset: 0,
+        state: 'queued',
+        started: false,
+        abort: null,
+        settle: resolve
+      });
+      flushQueue();
+      pumpQueue(peerId);
+    });
+  }, [flushQueue, pumpQueue]);
+
+  // Stop sending the given files, they keep their place in the queue
+  const pauseTransfers = useCallback((fileIds: string[]) => {
+    outgoingTransfersRef.current.forEach(outgoing => {
+      if (fileIds.includes(outgoing.fileId) && canPause(outgoing.state)) {
+        outgoing.state = 'paused';
+        outgoing.abort?.abort();
       }
+    });
+    flushQueue();
+  }, [flushQueue]);
+
+  // Continue paused files from where the receiver got to
+  const resumePausedTransfers = useCallback((fileIds: string[]) => {
+    const peerIds = new Set<string>();
+    outgoingTransfersRef.current.forEach(outgoing => {
+      if (fileIds.includes(outgoing.fileId) && outgoing.state === 'paused') {
+        outgoing.state = 'queued';
+        peerIds.add(outgoing.peerId);
+      }
+    });
+    flushQueue();
+    peerIds.forEach(peerId => pumpQueue(peerId));
+  }, [flushQueue, pumpQueue]);
+
+  // Give up on the given files and tell the receivers to discard what they have
+  const cancelTransfers = useCallback((fileIds: string[]) => {
+    outgoingTransfersRef.current.forEach(outgoing => {
+      if (!fileIds.includes(outgoing.fileId) || isFinishedState(outgoing.state)) return;
+      outgoing.abort?.abort();
+      setOutgoingState(outgoing, 'cancelled');
+      finishTransfer(outgoing.fileId);
+      const message: FileCancelMessage = { type: 'file-cancel', fileId: outgoing.fileId };
+      channelsRef.current.get(outgoing.peerId)?.send(message);
+    });
+  }, [setOutgoingState, finishTransfer]);
+
+  // Send a file earlier (-1) or later (1) than the others of its batch
+  const moveTransfer = useCallback((fileId: string, offset: number) => {
+    outgoingTransfersRef.current = moveQueueItem(outgoingTransfersRef.current, fileId, offset);
+    flushQueue();
+  }, [flushQueue]);
+
+  // Remove done, failed and cancelled files from the queue
+  const clearFinishedTransfers = useCallback(() => {
+    outgoingTransfersRef.current = outgoingTransfersRef.current.filter(outgoing => !isFinishedState(outgoing.state));
+    flushQueue();
+  }, [flushQueue]);
+
+  // Abandon unfinished transfers to a peer, or to everyone
+  const dropOutgoingTransfers = useCallback((peerId?: string) => {
+    outgoingTransfersRef.current = outgoingTransfersRef.current.filter(outgoing => {
+      if (peerId && outgoing.peerId !== peerId) return true;
+      outgoing.abort?.abort();
+      outgoing.settle?.(false);
+      outgoing.settle = null;
       return false;
+    });
+    flushQueue();
+  }, [flushQueue]);
+
+  // Disconnect a single participant
+  const disconnectPeer = useCallback((peerId: string) => {
+    const channel = channelsRef.current.get(peerId);
+    cancelRedial(peerId, true);
+    if (channel) {
+      // A deliberate disconnect abandons unfinished transfers
+      dropOutgoingTransfers(peerId);
+      closeChannel(channel);
     }
+    refreshParticipants();
+  }, [dropOutgoingTransfers, cancelRedial, closeChannel, refreshParticipants]);
+
+  // Disconnect from all peers
+  const disconnect = useCallback(() => {
+    const channels = Array.from(channelsRef.current.values());
+    channelsRef.current.clear();
+    Array.from(redialsRef.current.keys()).forEach(peerId => cancelRedial(peerId, true));
+    channels.forEach(channel => closeChannel(channel));
+    if (connection && !channels.some(channel => channel.connection === connection)) {
+      deliberateClosesRef.current.add(connection);
+      connection.close();
+    }
+    setConnection(null);
+    refreshParticipants();
+    setSecurityCode('');
+    setConnectionState(peerRef.current?.open ? { status: 'ready' } : { status: 'registering' });
+    clearTransfers();
+    dropOutgoingTransfers();
+  }, [connection, clearTransfers, dropOutgoingTransfers, refreshParticipants, cancelRedial, closeChannel]);
+
+  // Load remembered devices, and this device's identity if it registers a stable ID
+  useEffect(() => {
+    const devices = listTrustedDevices();
+    trustedDevicesRef.current = devices;
+    setTrustedDevices(devices);
     
-    if (!checkPeerLoaded()) {
-      const intervalId = setInterval(() => {
-        if (checkPeerLoaded()) {
-          clearInterval(intervalId);
-        }
-      }, 100);
-      
-      return () => clearInterval(intervalId);
+    if (!isRememberingDevices()) {
+      setIdentityLoaded(true);
+      return;
     }
+    getDeviceIdentity().then((identity) => {
+      deviceIdentityRef.current = identity;
+      setDeviceIdentity(identity);
+    }).catch((err) => {
+      console.error('Failed to load device identity:', err);
+    }).finally(() => {
+      setIdentityLoaded(true);
+    });
   }, []);
 
+  const stablePeerId = deviceIdentity?.peerId || '';
+
   // Initialize PeerJS
   useEffect(() => {
-    // Check client environment and ensure Peer is loaded
-    if (typeof window === 'undefined' || !peerLoaded) return;
+    // Wait until we know whether to register the stable ID
+    if (typeof window === 'undefined' || !identityLoaded) return;
 
-    try {
-      const Peer = window.Peer;
-      
-      // 使用原始方式初始化 Peer，不指定 ID 让服务器自动生成
-      // 传递一个空字符串作为第一个参数以符合类型定义
-      const peer = new Peer('', {
-        config: {
-          iceServers: [
-            { urls: 'stun:stun.l.google.com:19302' },
-            { urls: 'stun:stun1.l.google.com:19302' },
-            { urls: 'stun:stun2.l.google.com:19302' },
-            { urls: 'stun:stun3.l.google.com:19302' },
-            { urls: 'stun:stun4.l.google.com:19302' },
-            { urls: 'stun:global.stun.twilio.com:3478' },
-            { urls: 'stun:stun.stunprotocol.org:3478' }
-          ],
-          iceCandidatePoolSize: 10,
-        },
-        debug: 2 // Increase debug information level
-      });
-      peerRef.current = peer;
+    // ICE servers are fetched first, the peer may be unmounted by then
+    let cancelled = false;
+    
+    const initPeer = async (id: string) => {
+      try {
+        const peer = await createPeer(id);
+        if (cancelled) {
+          peer.destroy();
+          return;
+        }
+        peerRef.current = peer;
+        setConnectionState({ status: 'registering' });
 
-      peer.on('open', (id: string) => {
-        setMyPeerId(id);
-        setConnectionStatus('Online, waiting for connection');
-        console.log('PeerJS connection opened, ID:', id);
-      });
+        peer.on('open', (id: string) => {
+          reconnectAttempts.current = 0;
+          myPeerIdRef.current = id;
+          setMyPeerId(id);
+          setConnectionState({ status: 'ready' });
+          console.log('PeerJS connection opened, ID:', id);
+        });
 
-      peer.on('connection', (conn: any) => {
-        console.log('Connection request received:', conn.peer);
-        if (setupConnectionRef.current) {
-          setupConnectionRef.current(conn);
-        } else {
-          setupConnection(conn);
-        }
-        setConnectionStatus(`Connected to ${conn.peer}`);
-      });
+        peer.on('connection', (conn: DataConnection) => {
+          console.log('Connection request received:', conn.peer);
+          setupConnectionRef.current?.(conn, true);
+          setConnectionState({ status: 'connecting', step: 'incoming', peerId: conn.peer });
+        });
 
-      peer.on('error', (error: any) => {
-        console.error('Peer connection error:', error);
-        let errorMsg = 'Connection error';
-        
-        // Provide more specific error messages
-        if (error.type === 'peer-unavailable') {
-          errorMsg = 'Remote device unavailable';
-        } else if (error.type === 'network') {
-          errorMsg = 'Network connection issue';
-        } else if (error.type === 'disconnected') {
-          errorMsg = 'Disconnected from server';
-        } else if (error.type === 'server-error') {
-          errorMsg = 'Server error';
-        }
-        
-        setConnectionStatus(errorMsg);
-      });
+        peer.on('error', (error: PeerError<`${PeerErrorType}`>) => {
+          console.error('Peer connection error:', error);
+          // The stable ID is taken, most likely by this device in another tab
+          if (error.type === 'unavailable-id' && id) {
+            if (peerRef.current === peer) peerRef.current = null;
+            peer.destroy();
+            if (!cancelled) initPeer('');
+            return;
+          }
+          const reason = getPeerErrorFailure(error.type);
+          // A missing peer can be dialed again once it is back online
+          setConnectionState({
+            status: 'failed',
+            reason,
+            target: reason === 'peer-unavailable' ? lastTargetRef.current || undefined : undefined
+          });
+        });
 
-      // Add additional handling 
-      if (handleDisconnectRef.current) {
-        peer.on('disconnected', handleDisconnectRef.current);
+        // Add additional handling 
+        if (handleDisconnectRef.current) {
+          peer.on('disconnected', handleDisconnectRef.current);
+        }
+      } catch (err) {
+        console.error('PeerJS initialization failed:', err);
+        setConnectionState({ status: 'failed', reason: 'init-failed' });
       }
+    };
+    
+    // The ID changes when remembering this device is switched on or off
+    setMyPeerId('');
+    setConnectionState({ status: 'initializing' });
+    initPeer(stablePeerId);
+    
+    const redials = redialsRef.current;
+    return () => {
+      cancelled = true;
+      // Cleared first, so destroying it is not taken for a lost broker
+      const peer = peerRef.current;
+      peerRef.current = null;
+      peer?.destroy();
+      Array.from(redials.keys()).forEach(peerId => cancelRedial(peerId, true));
+    };
+  }, [identityLoaded, stablePeerId, cancelRedial]);
 
-      return () => {
-        if (peerRef.current) {
-          peerRef.current.destroy();
-          peerRef.current = null;
-        }
-      };
-    } catch (err) {
-      console.error('PeerJS initialization failed:', err);
-      setConnectionStatus('Initialization failed');
-    }
-  }, [peerLoaded]);
+  // Do not wait out the backoff once the network is back, e.g. after switching from Wi-Fi to cellular
+  useEffect(() => {
+    const handleOnline = () => {
+      redialsRef.current.forEach((pending, peerId) => {
+        if (!pending.dial) return;
+        clearTimeout(pending.timer);
+        redial(peerId);
+      });
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [redial]);
+
+  // Report the open connections to the diagnostics page in another tab
+  useEffect(() => {
+    return answerStatsRequests(() => Promise.all(
+      Array.from(channelsRef.current.values()).map(channel =>
+        summarizeConnectionStats(channel.peer, channel.connection.peerConnection)
+      )
+    ));
+  }, []);
 
   // Handle connection parameters in URL
   useEffect(() => {
@@ -333,9 +1420,22 @@ export default function usePeerConnection(options: PeerConnectionOptions = {}) {
     const checkUrlForConnection = () => {
       const urlParams = new URLSearchParams(window.location.search);
       const connectId = urlParams.get('connect');
+      // The passphrase travels in the fragment so it is never sent to a server
+      const hashParams = new URLSearchParams(window.location.hash.slice(1));
+      const passphrase = hashParams.get('key');
       
       if (connectId && myPeerId) {
-        connectToPeer(connectId);
+        if (passphrase) {
+          setSessionPassphrase(passphrase);
+        }
+        if (!passphraseRef.current && hashParams.has('key-required')) {
+          // Ask before dialing instead of in the middle of the handshake
+          linkTargetRef.current = connectId;
+          setPassphraseRequired(true);
+          setConnectionState({ status: 'connecting', step: 'passphrase-required', peerId: connectId });
+        } else {
+          connectToPeer(connectId);
+        }
         
         // Clear URL parameters to prevent reconnection on page refresh
         const newUrl = window.location.pathname;
@@ -344,16 +1444,42 @@ export default function usePeerConnection(options: PeerConnectionOptions = {}) {
     };
     
     checkUrlForConnection();
-  }, [myPeerId, connectToPeer]);
+  }, [myPeerId, connectToPeer, setSessionPassphrase]);
 
   return {
     myPeerId,
     connection,
-    connectionStatus,
+    connectionState,
+    retryConnection,
     connected,
+    participants,
+    roomMode,
+    setRoomMode,
     connectToPeer,
     sendData,
+    requestFileTransfer,
+    sendFile,
+    transfers,
+    queue,
+    pauseTransfers,
+    resumePausedTransfers,
+    cancelTransfers,
+    moveTransfer,
+    clearFinishedTransfers,
+    securityCode,
+    sessionPassphrase,
+    setSessionPassphrase,
+    passphraseRequired,
+    submitPassphrase,
     disconnect,
+    disconnectPeer,
+    deviceIdentity,
+    setRememberDevice,
+    renameDevice,
+    trustedDevices,
+    trustDevice,
+    forgetDevice,
+    isVerifiedDevice,
     peer: peerRef.current
   };
 } 
\ No newline at end of file
@@ -0,0 +1,40 @@
+"use client";
+
+// localStorage key for peers whose files are accepted without asking
+const STORAGE_KEY = 'autoAcceptPeers';
+
+function loadPeers(): string[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.error('Failed to read auto-accept peers:', err);
+    return [];
+  }
+}
+
+/**
+ * Check whether files from a peer are accepted automatically
+ * @param peerId Remote peer ID
+ * @returns Whether auto-accept is enabled for the peer
+ */
+export function isAutoAcceptPeer(peerId: string): boolean {
+  if (!peerId || typeof window === 'undefined') return false;
+  return loadPeers().includes(peerId);
+}
+
+/**
+ * Enable or disable auto-accept for a peer
+ * @param peerId Remote peer ID
+ * @param enabled Whether to accept files without asking
+ */
+export function setAutoAcceptPeer(peerId: string, enabled: boolean): void {
+  if (!peerId) return;
+  const peers = loadPeers().filter(id => id !== peerId);
+  if (enabled) peers.push(peerId);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(peers));
+  } catch (err) {
+    console.error('Failed to save auto-accept peers:', err);
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+
+// Reverse proxies in front of the app that append the address they were reached from to X-Forwarded-For
+const TRUSTED_PROXY_HOPS = parseInt(process.env.TRUSTED_PROXY_HOPS || '0', 10) || 0;
+
+// Set by server.js, which appends the socket address to X-Forwarded-For like one more proxy
+const SERVER_APPENDS_ADDRESS = process.env.SERVER_APPENDS_CLIENT_ADDRESS === 'true';
+
+/**
+ * Get the address a request came from.
+ * Entries left of the ones our own proxies added were written by the client
+ * and are ignored, so the same rule holds behind any number of proxies.
+ * @param request Incoming request
+ * @returns Client IP address, or null when no trusted hop reported it
+ */
+export function getClientAddress(request: NextRequest): string | null {
+  const hops = TRUSTED_PROXY_HOPS + (SERVER_APPENDS_ADDRESS ? 1 : 0);
+  // Under plain `next start` without a proxy the header may come straight from the client
+  if (hops === 0) return null;
+
+  const entries = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  // The last hop appended the address it was reached from, every hop before it one more entry
+  const address = entries.length >= hops ? entries[entries.length - hops] : '';
+  return address ? address.replace(/^::ffff:/, '') : null;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeConnectionState,
+  getPeerErrorFailure,
+  getRecoveryAction,
+  getStatusClassName
+} from './connectionState';
+
+describe('getPeerErrorFailure', () => {
+  it('maps PeerJS error types to failures', () => {
+    expect(getPeerErrorFailure('peer-unavailable')).toBe('peer-unavailable');
+    expect(getPeerErrorFailure('network')).toBe('broker-unreachable');
+    expect(getPeerErrorFailure('disconnected')).toBe('broker-disconnected');
+    expect(getPeerErrorFailure('server-error')).toBe('broker-error');
+    expect(getPeerErrorFailure('webrtc')).toBe('peer-error');
+  });
+});
+
+describe('describeConnectionState', () => {
+  it('names the step of a connection being set up', () => {
+    expect(describeConnectionState({ status: 'connecting', step: 'dialing' })).toBe('Connecting...');
+    expect(describeConnectionState({ status: 'connecting', step: 'incoming', peerId: 'abc' })).toBe('Incoming connection from abc');
+    expect(describeConnectionState({ status: 'connecting', step: 'incoming' })).toBe('Incoming connection');
+  });
+
+  it('counts peers and marks relayed connections', () => {
+    expect(describeConnectionState({ status: 'connected', peerId: 'abc', peerCount: 1, relayed: false })).toBe('Connected to abc');
+    expect(describeConnectionState({ status: 'connected', peerId: 'abc', peerCount: 3, relayed: false })).toBe('Connected to 3 devices');
+    expect(describeConnectionState({ status: 'connected', peerId: 'abc', peerCount: 1, relayed: true }))
+      .toBe('Connected to abc (relayed through the server)');
+  });
+
+  it('describes reconnect attempts', () => {
+    expect(describeConnectionState({ status: 'reconnecting', attempt: 1, delay: 2000 })).toBe('Connection lost, retrying in 2 seconds...');
+    expect(describeConnectionState({ status: 'reconnecting', attempt: 0, delay: 0, peerId: 'abc' }))
+      .toBe('Connection to abc lost, waiting for it to reconnect...');
+    expect(describeConnectionState({ status: 'reconnecting', attempt: 2, delay: 4000, peerId: 'abc' }))
+      .toBe('Connection to abc lost, reconnecting (attempt 2)...');
+  });
+
+  it('uses the detail of failures that carry one', () => {
+    expect(describeConnectionState({ status: 'failed', reason: 'secure-channel', detail: 'bad key' })).toBe('Secure connection failed: bad key');
+    expect(describeConnectionState({ status: 'failed', reason: 'unverified-device', detail: 'Laptop' })).toBe('Could not verify Laptop, connection closed');
+    expect(describeConnectionState({ status: 'failed', reason: 'pairing-code', detail: 'Code expired' })).toBe('Code expired');
+    expect(describeConnectionState({ status: 'failed', reason: 'timeout', detail: 'ignored' })).toBe('Connection timed out, please try again');
+  });
+});
+
+describe('getStatusClassName', () => {
+  it('styles each status', () => {
+    expect(getStatusClassName({ status: 'ready' })).toBe('');
+    expect(getStatusClassName({ status: 'connected', peerId: 'abc', peerCount: 1, relayed: false })).toBe('status-connected');
+    expect(getStatusClassName({ status: 'failed', reason: 'closed' })).toBe('status-error');
+    expect(getStatusClassName({ status: 'registering' })).toBe('status-connecting');
+  });
+});
+
+describe('getRecoveryAction', () => {
+  it('offers a reload for broker failures', () => {
+    expect(getRecoveryAction({ status: 'failed', reason: 'broker-unreachable' })).toBe('reload');
+    expect(getRecoveryAction({ status: 'failed', reason: 'incompatible-version', target: 'abc' })).toBe('reload');
+  });
+
+  it('offers a retry only when there is a peer to dial again', () => {
+    expect(getRecoveryAction({ status: 'failed', reason: 'timeout', target: 'abc' })).toBe('retry');
+    expect(getRecoveryAction({ status: 'failed', reason: 'timeout' })).toBeNull();
+    expect(getRecoveryAction({ status: 'failed', reason: 'rejected-passphrase', target: 'abc' })).toBeNull();
+  });
+
+  it('offers nothing outside failures', () => {
+    expect(getRecoveryAction({ status: 'ready' })).toBeNull();
+  });
+});
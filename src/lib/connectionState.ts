@@ -0,0 +1,188 @@
+// Connection lifecycle: the hook moves between these states, and the UI derives
+// its status text, styling and recovery actions from them.
+
+// Why a connection attempt or the broker registration failed
+export type ConnectionFailure =
+  | 'init-failed'
+  | 'broker-unreachable'
+  | 'broker-error'
+  | 'broker-disconnected'
+  | 'reconnect-exhausted'
+  | 'reconnect-failed'
+  | 'pairing-code'
+  | 'peer-unavailable'
+  | 'peer-error'
+  | 'timeout'
+  | 'connection-error'
+  | 'secure-channel'
+  | 'incompatible-version'
+  | 'wrong-passphrase'
+  | 'rejected-passphrase'
+  | 'unverified-device'
+  | 'unreachable'
+  | 'closed';
+
+// Step of a connection that is being set up
+export type ConnectingStep =
+  | 'resolving-code'
+  | 'dialing'
+  | 'incoming'
+  | 'securing'
+  | 'relaying'
+  | 'handshake'
+  | 'authenticating'
+  | 'passphrase-required';
+
+export type ConnectionState =
+  // Loading PeerJS and the ICE servers
+  | { status: 'initializing' }
+  // Waiting for the broker to accept our ID
+  | { status: 'registering' }
+  // Registered, waiting for a connection
+  | { status: 'ready' }
+  | { status: 'connecting'; step: ConnectingStep; peerId?: string }
+  // relayed is set when a connection goes through the WebSocket relay instead of WebRTC
+  | { status: 'connected'; peerId: string; peerCount: number; relayed: boolean }
+  // Lost the broker, or the connection to peerId, retrying after a delay.
+  // Attempt 0 waits for the other side to dial again.
+  | { status: 'reconnecting'; attempt: number; delay: number; peerId?: string }
+  // target is the peer to dial again, set when we started the connection
+  | { status: 'failed'; reason: ConnectionFailure; target?: string; detail?: string };
+
+export type ConnectionStatus = ConnectionState['status'];
+
+// What the user can do about a failure
+export type RecoveryAction = 'retry' | 'reload';
+
+// Failures only a fresh page gets out of
+const RELOAD_FAILURES: ConnectionFailure[] = [
+  'init-failed',
+  'broker-unreachable',
+  'broker-error',
+  'broker-disconnected',
+  'reconnect-exhausted',
+  'reconnect-failed',
+  'incompatible-version'
+];
+
+// Failures worth dialing the same peer again for
+const RETRY_FAILURES: ConnectionFailure[] = [
+  'peer-unavailable',
+  'peer-error',
+  'timeout',
+  'connection-error',
+  'secure-channel',
+  'wrong-passphrase',
+  'unreachable',
+  'closed'
+];
+
+const CONNECTING_TEXT: Record<ConnectingStep, string> = {
+  'resolving-code': 'Looking up pairing code...',
+  'dialing': 'Connecting...',
+  'incoming': 'Incoming connection',
+  'relaying': 'Direct connection failed, connecting through the relay...',
+  'securing': 'Securing connection...',
+  'handshake': 'Waiting for the other device...',
+  'authenticating': 'Verifying passphrase...',
+  'passphrase-required': 'Passphrase required'
+};
+
+const FAILURE_TEXT: Record<ConnectionFailure, string> = {
+  'init-failed': 'Initialization failed',
+  'broker-unreachable': 'Network connection issue',
+  'broker-error': 'Server error',
+  'broker-disconnected': 'Disconnected from server',
+  'reconnect-exhausted': 'Unable to reconnect. Please refresh the page.',
+  'reconnect-failed': 'Reconnection failed',
+  'pairing-code': 'Pairing code lookup failed',
+  'peer-unavailable': 'Remote device unavailable',
+  'peer-error': 'Connection error',
+  'timeout': 'Connection timed out, please try again',
+  'connection-error': 'Connection error',
+  'secure-channel': 'Secure connection failed',
+  'incompatible-version': 'The other device runs an incompatible version, reload the page on both devices',
+  'wrong-passphrase': 'Incorrect passphrase, please try again',
+  'rejected-passphrase': 'Rejected a device with the wrong passphrase',
+  'unverified-device': 'Could not verify the remembered device, connection closed',
+  'unreachable': 'The other device stopped responding',
+  'closed': 'Connection closed'
+};
+
+/**
+ * Map a PeerJS error to the failure it stands for
+ * @param type PeerJS error type
+ * @returns Failure reason
+ */
+export function getPeerErrorFailure(type: string): ConnectionFailure {
+  switch (type) {
+    case 'peer-unavailable': return 'peer-unavailable';
+    case 'network': return 'broker-unreachable';
+    case 'disconnected': return 'broker-disconnected';
+    case 'server-error': return 'broker-error';
+    default: return 'peer-error';
+  }
+}
+
+/**
+ * Describe a connection state to the user
+ * @param state Connection state
+ * @returns Status text
+ */
+export function describeConnectionState(state: ConnectionState): string {
+  switch (state.status) {
+    case 'initializing':
+      return 'Initializing...';
+    case 'registering':
+      return 'Registering with the server...';
+    case 'ready':
+      return 'Online, waiting for connection';
+    case 'connecting':
+      return state.step === 'incoming' && state.peerId
+        ? `Incoming connection from ${state.peerId}`
+        : CONNECTING_TEXT[state.step];
+    case 'connected': {
+      const text = state.peerCount > 1 ? `Connected to ${state.peerCount} devices` : `Connected to ${state.peerId}`;
+      return state.relayed ? `${text} (relayed through the server)` : text;
+    }
+    case 'reconnecting':
+      if (!state.peerId) return `Connection lost, retrying in ${state.delay / 1000} seconds...`;
+      return state.attempt === 0
+        ? `Connection to ${state.peerId} lost, waiting for it to reconnect...`
+        : `Connection to ${state.peerId} lost, reconnecting (attempt ${state.attempt})...`;
+    case 'failed':
+      // Some failures carry the device name or the underlying error
+      if (state.detail) {
+        if (state.reason === 'unverified-device') return `Could not verify ${state.detail}, connection closed`;
+        if (state.reason === 'secure-channel') return `Secure connection failed: ${state.detail}`;
+        if (state.reason === 'pairing-code') return state.detail;
+      }
+      return FAILURE_TEXT[state.reason];
+  }
+}
+
+/**
+ * Pick the status indicator style of a state
+ * @param state Connection state
+ * @returns CSS class, empty while idle
+ */
+export function getStatusClassName(state: ConnectionState): string {
+  switch (state.status) {
+    case 'connected': return 'status-connected';
+    case 'failed': return 'status-error';
+    case 'ready': return '';
+    default: return 'status-connecting';
+  }
+}
+
+/**
+ * Work out what the user can do to recover from a state
+ * @param state Connection state
+ * @returns Recovery action, or null when there is nothing to do
+ */
+export function getRecoveryAction(state: ConnectionState): RecoveryAction | null {
+  if (state.status !== 'failed') return null;
+  if (RELOAD_FAILURES.includes(state.reason)) return 'reload';
+  if (state.target && RETRY_FAILURES.includes(state.reason)) return 'retry';
+  return null;
+}
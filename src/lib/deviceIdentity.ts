@@ -0,0 +1,232 @@
+"use client";
+
+// Long-lived identity of this device, used to pair devices once and reconnect
+// later without scanning a QR code. The peer ID is derived from an ECDSA public
+// key; after connecting, each side signs the secure channel's session hash so
+// the other can check the ID really belongs to it.
+
+// localStorage keys
+const ENABLED_KEY = 'rememberDevice';
+const IDENTITY_KEY = 'deviceIdentity';
+const TRUSTED_DEVICES_KEY = 'trustedDevices';
+
+// Prefix of peer IDs derived from a device key
+const PEER_ID_PREFIX = 'tf-';
+
+// Hex characters of the key hash used in the peer ID
+const PEER_ID_HASH_LENGTH = 24;
+
+const KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export interface DeviceIdentity {
+  peerId: string;
+  name: string;
+  publicKey: JsonWebKey;
+  privateKey: JsonWebKey;
+}
+
+// A device the user chose to remember
+export interface TrustedDevice {
+  peerId: string;
+  name: string;
+  publicKey: JsonWebKey;
+  pairedAt: number;
+  lastSeen: number;
+}
+
+// Sent after authentication by devices with an identity
+export interface DeviceHelloMessage {
+  type: 'device-hello';
+  name: string;
+  publicKey: JsonWebKey;
+  // Hex ECDSA signature over the session hash
+  signature: string;
+}
+
+const textEncoder = new TextEncoder();
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): ArrayBuffer {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes.buffer;
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (err) {
+    console.error('Failed to read', key, err);
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error('Failed to save', key, err);
+  }
+}
+
+/**
+ * Guess a readable name for this device from the user agent
+ * @returns Default device name
+ */
+export function getDefaultDeviceName(): string {
+  const agent = navigator.userAgent;
+  if (/iPhone/.test(agent)) return 'iPhone';
+  if (/iPad/.test(agent)) return 'iPad';
+  if (/Android/.test(agent)) return 'Android device';
+  if (/Macintosh/.test(agent)) return 'Mac';
+  if (/Windows/.test(agent)) return 'Windows PC';
+  if (/Linux/.test(agent)) return 'Linux PC';
+  return 'My device';
+}
+
+/**
+ * Derive the peer ID that belongs to a public key
+ * @param publicKey ECDSA public key
+ * @returns Peer ID
+ */
+export async function derivePeerId(publicKey: JsonWebKey): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', textEncoder.encode(`${publicKey.x}.${publicKey.y}`));
+  return PEER_ID_PREFIX + toHex(new Uint8Array(digest)).slice(0, PEER_ID_HASH_LENGTH);
+}
+
+/**
+ * Check whether this device registers with its stable ID
+ * @returns Whether remembering devices is enabled
+ */
+export function isRememberingDevices(): boolean {
+  if (typeof window === 'undefined') return false;
+  return readJson<boolean>(ENABLED_KEY, false);
+}
+
+/**
+ * Enable or disable the stable ID, the identity and trusted devices are kept
+ * @param enabled Whether to register with the stable ID
+ */
+export function setRememberingDevices(enabled: boolean): void {
+  writeJson(ENABLED_KEY, enabled);
+}
+
+/**
+ * Load this device's identity, creating it on first use
+ * @returns Device identity
+ */
+export async function getDeviceIdentity(): Promise<DeviceIdentity> {
+  const stored = readJson<DeviceIdentity | null>(IDENTITY_KEY, null);
+  if (stored) return stored;
+
+  const keyPair = await crypto.subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify']);
+  const publicKey = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+  const identity: DeviceIdentity = {
+    peerId: await derivePeerId(publicKey),
+    name: getDefaultDeviceName(),
+    publicKey,
+    privateKey: await crypto.subtle.exportKey('jwk', keyPair.privateKey)
+  };
+  writeJson(IDENTITY_KEY, identity);
+  return identity;
+}
+
+/**
+ * Rename this device, the name is shown to devices that pair with it
+ * @param name New name
+ * @returns Updated identity
+ */
+export async function setDeviceName(name: string): Promise<DeviceIdentity> {
+  const identity = { ...(await getDeviceIdentity()), name };
+  writeJson(IDENTITY_KEY, identity);
+  return identity;
+}
+
+/**
+ * Prove this device's identity for one secure session
+ * @param identity Device identity
+ * @param sessionHash Hash of both public keys of the secure channel
+ * @returns Hello frame
+ */
+export async function createDeviceHello(identity: DeviceIdentity, sessionHash: ArrayBuffer): Promise<DeviceHelloMessage> {
+  const privateKey = await crypto.subtle.importKey('jwk', identity.privateKey, KEY_ALGORITHM, false, ['sign']);
+  const signature = await crypto.subtle.sign(SIGN_ALGORITHM, privateKey, sessionHash);
+  return {
+    type: 'device-hello',
+    name: identity.name,
+    publicKey: identity.publicKey,
+    signature: toHex(new Uint8Array(signature))
+  };
+}
+
+/**
+ * Check that a hello frame comes from the device owning the peer ID
+ * @param hello Hello frame
+ * @param peerId ID the frame arrived from
+ * @param sessionHash Hash of both public keys of the secure channel
+ * @returns Whether the key matches the ID and signed this session
+ */
+export async function verifyDeviceHello(hello: DeviceHelloMessage, peerId: string, sessionHash: ArrayBuffer): Promise<boolean> {
+  try {
+    if (typeof hello.signature !== 'string' || await derivePeerId(hello.publicKey) !== peerId) return false;
+    const publicKey = await crypto.subtle.importKey('jwk', hello.publicKey, KEY_ALGORITHM, false, ['verify']);
+    return await crypto.subtle.verify(SIGN_ALGORITHM, publicKey, fromHex(hello.signature), sessionHash);
+  } catch (err) {
+    console.warn('Invalid device hello:', err);
+    return false;
+  }
+}
+
+/**
+ * Check whether two public keys are the same key
+ * @param a Public key
+ * @param b Public key
+ * @returns Whether curve and coordinates match
+ */
+export function isSamePublicKey(a: JsonWebKey, b: JsonWebKey): boolean {
+  return a.kty === b.kty && a.crv === b.crv && a.x === b.x && a.y === b.y;
+}
+
+/**
+ * Get the devices the user chose to remember
+ * @returns Trusted devices, most recently seen first
+ */
+export function listTrustedDevices(): TrustedDevice[] {
+  if (typeof window === 'undefined') return [];
+  return readJson<TrustedDevice[]>(TRUSTED_DEVICES_KEY, []).sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+/**
+ * Remember a device, or refresh its name and last seen time
+ * @param device Device details from its verified hello
+ * @returns Updated list
+ */
+export function saveTrustedDevice(device: Pick<TrustedDevice, 'peerId' | 'name' | 'publicKey'>): TrustedDevice[] {
+  const devices = listTrustedDevices();
+  const existing = devices.find(item => item.peerId === device.peerId);
+  const now = Date.now();
+  const updated: TrustedDevice = {
+    ...device,
+    pairedAt: existing ? existing.pairedAt : now,
+    lastSeen: now
+  };
+  writeJson(TRUSTED_DEVICES_KEY, [updated, ...devices.filter(item => item.peerId !== device.peerId)]);
+  return listTrustedDevices();
+}
+
+/**
+ * Forget a remembered device
+ * @param peerId Device peer ID
+ * @returns Updated list
+ */
+export function removeTrustedDevice(peerId: string): TrustedDevice[] {
+  writeJson(TRUSTED_DEVICES_KEY, listTrustedDevices().filter(item => item.peerId !== peerId));
+  return listTrustedDevices();
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { inferNatType, type IceCandidateInfo } from './diagnostics';
+
+const host: IceCandidateInfo = { type: 'host', protocol: 'udp', address: '192.168.1.10', port: 50000 };
+
+/**
+ * Build a server reflexive candidate for the host socket
+ * @param port Public port
+ * @param url STUN server that reported it
+ * @param address Public address
+ * @returns Candidate
+ */
+function reflexive(port: number, url?: string, address = '203.0.113.5'): IceCandidateInfo {
+  return { type: 'srflx', protocol: 'udp', address, port, relatedAddress: host.address, relatedPort: host.port, url };
+}
+
+describe('inferNatType', () => {
+  it('cannot tell without STUN servers', () => {
+    expect(inferNatType([host], 0)).toBe('unknown');
+  });
+
+  it('reports UDP blocked when no server answered', () => {
+    expect(inferNatType([host], 2)).toBe('udp-blocked');
+  });
+
+  it('reports no NAT when the public address is our own', () => {
+    expect(inferNatType([host, reflexive(50000, undefined, host.address)], 2)).toBe('open');
+  });
+
+  it('reports a cone NAT when one socket has one mapping', () => {
+    expect(inferNatType([host, reflexive(40000, 'stun:a')], 2)).toBe('cone');
+  });
+
+  it('reports a symmetric NAT when two servers saw different mappings of one socket', () => {
+    expect(inferNatType([host, reflexive(40000, 'stun:a'), reflexive(40001, 'stun:b')], 2)).toBe('symmetric');
+    expect(inferNatType([host, reflexive(40000), reflexive(40001)], 2)).toBe('symmetric');
+  });
+
+  it('does not compare mappings of different sockets', () => {
+    const other = { ...reflexive(40001, 'stun:b'), relatedPort: 50001 };
+    expect(inferNatType([host, reflexive(40000, 'stun:a'), other], 2)).toBe('cone');
+  });
+
+  it('does not count two mappings reported by the same server', () => {
+    expect(inferNatType([host, reflexive(40000, 'stun:a'), reflexive(40001, 'stun:a')], 2)).toBe('cone');
+  });
+
+  it('cannot tell when the browser hides the local port', () => {
+    const hidden = { ...reflexive(40000, 'stun:a'), relatedAddress: '0.0.0.0', relatedPort: 0 };
+    expect(inferNatType([host, hidden], 2)).toBe('unknown');
+  });
+
+  it('cannot tell a cone NAT from a single server', () => {
+    expect(inferNatType([host, reflexive(40000, 'stun:a')], 1)).toBe('unknown');
+  });
+});
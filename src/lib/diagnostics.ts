@@ -0,0 +1,606 @@
+// Connection self-test behind the /diagnostics page: broker reachability, ICE
+// candidate gathering and the NAT type it implies, a loopback data channel, and
+// the stats of connections open in other tabs. The results are turned into a
+// plain text report users can attach to a support ticket.
+
+import { getPeerServerOptions } from './peerConfig';
+import { getConnectionRoute, getRouteLabel, getSelectedCandidatePair, CandidateStats, ConnectionRoute } from './iceConfig';
+import { isRelayAvailable } from './relayTransport';
+
+// Broker PeerJS uses when NEXT_PUBLIC_PEER_HOST is not set
+const CLOUD_BROKER = { host: '0.peerjs.com', port: 443, path: '/', key: 'peerjs', secure: true };
+
+// How long each check may take before it counts as failed
+const BROKER_TIMEOUT = 5000;
+const ICE_GATHERING_TIMEOUT = 10000;
+const LOOPBACK_TIMEOUT = 10000;
+
+// Messages echoed over the loopback channel to measure its round trip
+const LOOPBACK_PINGS = 5;
+
+// BroadcastChannel the transfer page answers stats requests on
+const DIAGNOSTICS_CHANNEL = 'transferfiles-diagnostics';
+
+// How long to collect answers from other tabs
+const LIVE_STATS_WAIT = 1500;
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface BrokerCheck {
+  status: CheckStatus;
+  url: string;
+  // Time the broker took to answer, in milliseconds
+  latency: number | null;
+  error?: string;
+}
+
+export interface IceCandidateInfo {
+  type: string;
+  protocol: string;
+  address: string;
+  port: number;
+  // Local address a reflexive or relay candidate was derived from, when the browser reveals it
+  relatedAddress?: string;
+  relatedPort?: number;
+  // STUN or TURN server that reported the candidate, when the browser tells
+  url?: string;
+}
+
+// Candidate event as Chrome delivers it, with the server URL not yet in TypeScript's DOM types
+type IceCandidateEvent = RTCPeerConnectionIceEvent & { url?: string | null };
+
+// open: no NAT, cone: one mapping per local socket so STUN connections work,
+// symmetric: a new mapping per destination so connections often need TURN or the relay,
+// udp-blocked: no STUN server answered
+export type NatType = 'open' | 'cone' | 'symmetric' | 'udp-blocked' | 'unknown';
+
+export interface IceGatheringCheck {
+  status: CheckStatus;
+  // STUN and TURN URLs gathered against, never their credentials
+  servers: string[];
+  candidates: IceCandidateInfo[];
+  nat: NatType;
+  duration: number;
+  timedOut: boolean;
+  error?: string;
+}
+
+export interface LoopbackCheck {
+  status: CheckStatus;
+  // Average round trip of the echoed messages, in milliseconds
+  rtt: number | null;
+  error?: string;
+}
+
+// getStats() of one open connection, reduced to what helps with a ticket
+export interface ConnectionStatsSummary {
+  peerId: string;
+  route: ConnectionRoute | null;
+  // RTCPeerConnection state, or 'relayed' for connections through the WebSocket relay
+  state: string;
+  localCandidate: string | null;
+  remoteCandidate: string | null;
+  rtt: number | null;
+  bytesSent: number | null;
+  bytesReceived: number | null;
+  availableOutgoingBitrate: number | null;
+}
+
+export interface LiveStatsCheck {
+  // Whether the browser can ask other tabs at all
+  supported: boolean;
+  // Tabs that answered
+  tabs: number;
+  connections: ConnectionStatsSummary[];
+}
+
+export interface DiagnosticsReport {
+  generatedAt: string;
+  userAgent: string;
+  online: boolean;
+  relayConfigured: boolean;
+  broker: BrokerCheck;
+  ice: IceGatheringCheck;
+  loopback: LoopbackCheck;
+  live: LiveStatsCheck;
+}
+
+export type DiagnosticsStep = 'broker' | 'ice' | 'loopback' | 'live';
+
+type DiagnosticsChannelMessage =
+  | { type: 'stats-request'; requestId: string }
+  | { type: 'stats-response'; requestId: string; connections: ConnectionStatsSummary[] };
+
+const NAT_LABELS: Record<NatType, string> = {
+  'open': 'No NAT (public address)',
+  'cone': 'Cone NAT (direct connections should work)',
+  'symmetric': 'Symmetric NAT (direct connections may fail, TURN or the relay is needed)',
+  'udp-blocked': 'UDP blocked or STUN unreachable (only TURN over TCP or the relay can connect)',
+  'unknown': 'Unknown (the browser hid the local ports, or too few STUN servers answered)'
+};
+
+/**
+ * Describe a NAT type to the user
+ * @param nat NAT type
+ * @returns Label
+ */
+export function getNatLabel(nat: NatType): string {
+  return NAT_LABELS[nat];
+}
+
+/**
+ * Reject a promise that takes too long
+ * @param promise Promise to wait for
+ * @param ms Time limit in milliseconds
+ * @param message Error message on timeout
+ * @returns The promise's result
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId));
+}
+
+/**
+ * Get the message of a caught error
+ * @param err Caught value
+ * @returns Message
+ */
+function getErrorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Build the URL of the broker's ID endpoint, the cheapest request it answers
+ * @returns URL
+ */
+function getBrokerUrl(): string {
+  const options = { ...CLOUD_BROKER, ...getPeerServerOptions() };
+  const path = options.path.endsWith('/') ? options.path : `${options.path}/`;
+  return `${options.secure ? 'https' : 'http'}://${options.host}:${options.port}${path}${options.key}/id`;
+}
+
+/**
+ * Check that the signaling broker answers
+ * @returns Check result
+ */
+export async function checkBroker(): Promise<BrokerCheck> {
+  const url = getBrokerUrl();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), BROKER_TIMEOUT);
+  const startedAt = performance.now();
+  try {
+    const response = await fetch(`${url}?ts=${Date.now()}`, { cache: 'no-store', signal: controller.signal });
+    const latency = Math.round(performance.now() - startedAt);
+    if (!response.ok) {
+      return { status: 'fail', url, latency, error: `Broker answered with status ${response.status}` };
+    }
+    return { status: latency > 1000 ? 'warn' : 'pass', url, latency };
+  } catch (err) {
+    const error = controller.signal.aborted ? `No answer within ${BROKER_TIMEOUT / 1000} seconds` : getErrorMessage(err);
+    return { status: 'fail', url, latency: null, error };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Parse an ICE candidate line
+ * @param candidate Candidate attribute, as in RTCIceCandidate.candidate
+ * @returns Candidate details, or null when the line is malformed
+ */
+function parseIceCandidate(candidate: string): IceCandidateInfo | null {
+  // candidate:<foundation> <component> <protocol> <priority> <address> <port> typ <type> [raddr <address> rport <port>] ...
+  const parts = candidate.replace(/^a=/, '').replace(/^candidate:/, '').split(' ');
+  const typeIndex = parts.indexOf('typ');
+  if (parts.length < 8 || typeIndex !== 6) return null;
+
+  const info: IceCandidateInfo = {
+    type: parts[7],
+    protocol: parts[2].toLowerCase(),
+    address: parts[4],
+    port: parseInt(parts[5], 10)
+  };
+  const relatedAddressIndex = parts.indexOf('raddr');
+  const relatedPortIndex = parts.indexOf('rport');
+  if (relatedAddressIndex !== -1) info.relatedAddress = parts[relatedAddressIndex + 1];
+  if (relatedPortIndex !== -1) info.relatedPort = parseInt(parts[relatedPortIndex + 1], 10);
+  return info;
+}
+
+/**
+ * Work out the NAT type from the candidates gathered against several STUN servers
+ * @param candidates Gathered candidates
+ * @param stunServerCount STUN servers gathered against
+ * @returns NAT type
+ */
+export function inferNatType(candidates: IceCandidateInfo[], stunServerCount: number): NatType {
+  if (stunServerCount === 0) return 'unknown';
+  const reflexive = candidates.filter(candidate => candidate.type === 'srflx');
+  if (reflexive.length === 0) return 'udp-blocked';
+
+  // Our own address seen from outside means there is no NAT in between
+  const hostAddresses = new Set(candidates.filter(candidate => candidate.type === 'host').map(candidate => candidate.address));
+  if (reflexive.some(candidate => hostAddresses.has(candidate.address))) return 'open';
+
+  // Group the mappings by the local socket they were made for. Browsers that hide the
+  // local address report port 0 or none, those candidates cannot be compared.
+  const byBase = new Map<string, IceCandidateInfo[]>();
+  let unknownBase = false;
+  reflexive.forEach(candidate => {
+    if (!candidate.relatedAddress || !candidate.relatedPort) {
+      unknownBase = true;
+      return;
+    }
+    const key = `${candidate.protocol} ${candidate.relatedAddress}:${candidate.relatedPort}`;
+    byBase.set(key, [...(byBase.get(key) || []), candidate]);
+  });
+
+  // One socket mapped to different public ports by two STUN servers means a new mapping per destination
+  const symmetric = Array.from(byBase.values()).some(mappings => mappings.some((a, i) => mappings.slice(i + 1).some(b =>
+    (a.address !== b.address || a.port !== b.port) && (!a.url || !b.url || a.url !== b.url)
+  )));
+  if (symmetric) return 'symmetric';
+
+  // The browser drops a second candidate with the same mapping, so one mapping per socket
+  // after asking several servers means a cone NAT, but only if every socket could be told apart
+  if (unknownBase || stunServerCount < 2) return 'unknown';
+  return 'cone';
+}
+
+/**
+ * List the URLs of ICE servers, leaving out credentials
+ * @param iceServers ICE servers
+ * @returns URLs
+ */
+function getIceServerUrls(iceServers: RTCIceServer[]): string[] {
+  return iceServers.flatMap(server => (Array.isArray(server.urls) ? server.urls : [server.urls]));
+}
+
+/**
+ * Gather ICE candidates against the configured servers
+ * @param iceServers ICE servers, as returned by loadIceServers()
+ * @returns Check result with the inferred NAT type
+ */
+export async function gatherIceCandidates(iceServers: RTCIceServer[]): Promise<IceGatheringCheck> {
+  const servers = getIceServerUrls(iceServers);
+  const stunServerCount = servers.filter(url => url.startsWith('stun:')).length;
+  const hasTurn = servers.some(url => url.startsWith('turn:') || url.startsWith('turns:'));
+  const candidates: IceCandidateInfo[] = [];
+  const startedAt = performance.now();
+  let timedOut = false;
+
+  let pc: RTCPeerConnection;
+  try {
+    pc = new RTCPeerConnection({ iceServers });
+  } catch (err) {
+    return {
+      status: 'fail', servers, candidates, nat: 'unknown', duration: 0, timedOut, error: getErrorMessage(err)
+    };
+  }
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        timedOut = true;
+        resolve();
+      }, ICE_GATHERING_TIMEOUT);
+      pc.onicecandidate = (event: IceCandidateEvent) => {
+        if (!event.candidate) {
+          clearTimeout(timeoutId);
+          resolve();
+          return;
+        }
+        const info = event.candidate.candidate ? parseIceCandidate(event.candidate.candidate) : null;
+        if (!info) return;
+        if (event.url) info.url = event.url;
+        candidates.push(info);
+      };
+      // A data channel is enough to make the browser gather
+      pc.createDataChannel('diagnostics');
+      pc.createOffer()
+        .then(offer => pc.setLocalDescription(offer))
+        .catch(err => {
+          clearTimeout(timeoutId);
+          reject(err);
+        });
+    });
+  } catch (err) {
+    pc.close();
+    return {
+      status: 'fail',
+      servers,
+      candidates,
+      nat: 'unknown',
+      duration: Math.round(performance.now() - startedAt),
+      timedOut,
+      error: getErrorMessage(err)
+    };
+  }
+  pc.close();
+
+  const nat = inferNatType(candidates, stunServerCount);
+  const hasRelay = candidates.some(candidate => candidate.type === 'relay');
+  let status: CheckStatus = 'pass';
+  if (candidates.length === 0) {
+    status = 'fail';
+  } else if (nat === 'udp-blocked' || nat === 'symmetric' || (hasTurn && !hasRelay)) {
+    status = 'warn';
+  }
+
+  return {
+    status,
+    servers,
+    candidates,
+    nat,
+    duration: Math.round(performance.now() - startedAt),
+    timedOut,
+    error: hasTurn && !hasRelay ? 'A TURN server is configured but gave no relay candidate' : undefined
+  };
+}
+
+/**
+ * Open a data channel between two peer connections in this tab and echo messages over it
+ * @returns Check result
+ */
+export async function testLoopback(): Promise<LoopbackCheck> {
+  let caller: RTCPeerConnection | null = null;
+  let callee: RTCPeerConnection | null = null;
+  try {
+    // Host candidates are enough on one machine, no servers needed
+    caller = new RTCPeerConnection();
+    callee = new RTCPeerConnection();
+    const a = caller;
+    const b = callee;
+    a.onicecandidate = event => {
+      if (event.candidate) b.addIceCandidate(event.candidate).catch(() => {});
+    };
+    b.onicecandidate = event => {
+      if (event.candidate) a.addIceCandidate(event.candidate).catch(() => {});
+    };
+    b.ondatachannel = event => {
+      const echo = event.channel;
+      echo.onmessage = message => echo.send(message.data);
+    };
+
+    const channel = a.createDataChannel('loopback');
+    const opened = new Promise<void>(resolve => {
+      channel.onopen = () => resolve();
+    });
+
+    const run = async () => {
+      const offer = await a.createOffer();
+      await a.setLocalDescription(offer);
+      await b.setRemoteDescription(offer);
+      const answer = await b.createAnswer();
+      await b.setLocalDescription(answer);
+      await a.setRemoteDescription(answer);
+      await opened;
+
+      let total = 0;
+      for (let i = 0; i < LOOPBACK_PINGS; i++) {
+        const sentAt = performance.now();
+        const echoed = new Promise<void>(resolve => {
+          channel.onmessage = () => resolve();
+        });
+        channel.send(String(i));
+        await echoed;
+        total += performance.now() - sentAt;
+      }
+      return Math.round(total / LOOPBACK_PINGS);
+    };
+
+    const rtt = await withTimeout(run(), LOOPBACK_TIMEOUT, 'The loopback data channel did not open');
+    return { status: 'pass', rtt };
+  } catch (err) {
+    return { status: 'fail', rtt: null, error: getErrorMessage(err) };
+  } finally {
+    caller?.close();
+    callee?.close();
+  }
+}
+
+/**
+ * Describe a candidate from a stats report
+ * @param candidate Local or remote candidate stats
+ * @returns Short description such as "srflx udp 203.0.113.5:54321"
+ */
+function describeStatsCandidate(candidate: CandidateStats | undefined): string | null {
+  if (!candidate) return null;
+  const address = candidate.address || candidate.ip || 'hidden';
+  return `${candidate.candidateType} ${candidate.protocol} ${address}:${candidate.port}`;
+}
+
+/**
+ * Summarize getStats() of a connection
+ * @param peerId Peer the connection goes to
+ * @param pc Peer connection behind it, undefined for relayed connections
+ * @returns Stats summary
+ */
+export async function summarizeConnectionStats(peerId: string, pc: RTCPeerConnection | undefined): Promise<ConnectionStatsSummary> {
+  const summary: ConnectionStatsSummary = {
+    peerId,
+    route: pc ? null : 'websocket',
+    state: pc ? pc.connectionState : 'relayed',
+    localCandidate: null,
+    remoteCandidate: null,
+    rtt: null,
+    bytesSent: null,
+    bytesReceived: null,
+    availableOutgoingBitrate: null
+  };
+  if (!pc) return summary;
+
+  const stats = await pc.getStats();
+  summary.route = await getConnectionRoute(pc);
+  const pair = getSelectedCandidatePair(stats);
+  if (!pair) return summary;
+
+  summary.localCandidate = describeStatsCandidate(stats.get(pair.localCandidateId));
+  summary.remoteCandidate = describeStatsCandidate(stats.get(pair.remoteCandidateId));
+  summary.rtt = typeof pair.currentRoundTripTime === 'number' ? Math.round(pair.currentRoundTripTime * 1000) : null;
+  summary.bytesSent = pair.bytesSent ?? null;
+  summary.bytesReceived = pair.bytesReceived ?? null;
+  summary.availableOutgoingBitrate = pair.availableOutgoingBitrate ?? null;
+  return summary;
+}
+
+/**
+ * Ask other tabs for the stats of their open connections
+ * @returns Connections reported by every tab that answered
+ */
+export async function requestLiveStats(): Promise<LiveStatsCheck> {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { supported: false, tabs: 0, connections: [] };
+  }
+
+  const requestId = Math.random().toString(36).slice(2);
+  const channel = new BroadcastChannel(DIAGNOSTICS_CHANNEL);
+  const connections: ConnectionStatsSummary[] = [];
+  let tabs = 0;
+  channel.onmessage = (event: MessageEvent<DiagnosticsChannelMessage>) => {
+    if (event.data?.type !== 'stats-response' || event.data.requestId !== requestId) return;
+    tabs += 1;
+    connections.push(...event.data.connections);
+  };
+  channel.postMessage({ type: 'stats-request', requestId } as DiagnosticsChannelMessage);
+
+  await new Promise(resolve => setTimeout(resolve, LIVE_STATS_WAIT));
+  channel.close();
+  return { supported: true, tabs, connections };
+}
+
+/**
+ * Answer stats requests from the diagnostics page
+ * @param collect Summarizes the connections open in this tab
+ * @returns Function that stops answering
+ */
+export function answerStatsRequests(collect: () => Promise<ConnectionStatsSummary[]>): () => void {
+  if (typeof BroadcastChannel === 'undefined') return () => {};
+
+  const channel = new BroadcastChannel(DIAGNOSTICS_CHANNEL);
+  channel.onmessage = async (event: MessageEvent<DiagnosticsChannelMessage>) => {
+    if (event.data?.type !== 'stats-request') return;
+    try {
+      const connections = await collect();
+      channel.postMessage({ type: 'stats-response', requestId: event.data.requestId, connections } as DiagnosticsChannelMessage);
+    } catch (err) {
+      console.warn('Collecting connection stats failed:', err);
+    }
+  };
+  return () => channel.close();
+}
+
+/**
+ * Format a byte count for the report
+ * @param bytes Byte count, null when unknown
+ * @returns Formatted count
+ */
+function formatBytes(bytes: number | null): string {
+  if (bytes === null) return 'n/a';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1048576) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1048576).toFixed(1)} MB`;
+}
+
+/**
+ * Format a millisecond value for the report
+ * @param ms Milliseconds, null when unknown
+ * @returns Formatted value
+ */
+function formatMs(ms: number | null): string {
+  return ms === null ? 'n/a' : `${ms} ms`;
+}
+
+/**
+ * Turn diagnostics results into a plain text report for a support ticket
+ * @param report Diagnostics results
+ * @returns Report text
+ */
+export function formatDiagnosticsReport(report: DiagnosticsReport): string {
+  const lines: string[] = [
+    'TransferFiles connection diagnostics',
+    `Generated: ${report.generatedAt}`,
+    `Browser: ${report.userAgent}`,
+    `Online: ${report.online ? 'yes' : 'no'}`,
+    `WebSocket relay: ${report.relayConfigured ? 'configured' : 'not configured'}`,
+    '',
+    `[${report.broker.status.toUpperCase()}] Signaling broker`,
+    `  URL: ${report.broker.url}`,
+    `  Response time: ${formatMs(report.broker.latency)}`
+  ];
+  if (report.broker.error) lines.push(`  Error: ${report.broker.error}`);
+
+  lines.push(
+    '',
+    `[${report.ice.status.toUpperCase()}] ICE candidate gathering`,
+    `  Servers: ${report.ice.servers.join(', ') || 'none'}`,
+    `  Duration: ${formatMs(report.ice.duration)}${report.ice.timedOut ? ' (timed out)' : ''}`,
+    `  NAT type: ${getNatLabel(report.ice.nat)}`
+  );
+  if (report.ice.error) lines.push(`  Error: ${report.ice.error}`);
+  report.ice.candidates.forEach(candidate => {
+    const related = candidate.relatedAddress ? ` from ${candidate.relatedAddress}:${candidate.relatedPort}` : '';
+    const server = candidate.url ? ` via ${candidate.url}` : '';
+    lines.push(`  - ${candidate.type} ${candidate.protocol} ${candidate.address}:${candidate.port}${related}${server}`);
+  });
+
+  lines.push(
+    '',
+    `[${report.loopback.status.toUpperCase()}] Loopback data channel`,
+    `  Round trip: ${formatMs(report.loopback.rtt)}`
+  );
+  if (report.loopback.error) lines.push(`  Error: ${report.loopback.error}`);
+
+  lines.push('', 'Live connections');
+  if (!report.live.supported) {
+    lines.push('  This browser cannot read connections from other tabs');
+  } else if (report.live.connections.length === 0) {
+    lines.push(`  None open (${report.live.tabs} TransferFiles tab(s) answered)`);
+  }
+  report.live.connections.forEach(connection => {
+    lines.push(
+      `  - ${connection.peerId}: ${connection.route ? getRouteLabel(connection.route) : 'route unknown'}, ${connection.state}`,
+      `    Local: ${connection.localCandidate || 'n/a'}, remote: ${connection.remoteCandidate || 'n/a'}`,
+      `    Round trip: ${formatMs(connection.rtt)}, sent: ${formatBytes(connection.bytesSent)}, received: ${formatBytes(connection.bytesReceived)}`
+    );
+    if (connection.availableOutgoingBitrate !== null) {
+      lines.push(`    Available bitrate: ${Math.round(connection.availableOutgoingBitrate / 1000)} kbit/s`);
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Run every check
+ * @param iceServers ICE servers, as returned by loadIceServers()
+ * @param onStep Called as each check starts
+ * @returns Diagnostics results
+ */
+export async function runDiagnostics(
+  iceServers: RTCIceServer[],
+  onStep: (step: DiagnosticsStep) => void = () => {}
+): Promise<DiagnosticsReport> {
+  // Run one after another so the checks do not skew each other's timings
+  onStep('broker');
+  const broker = await checkBroker();
+  onStep('ice');
+  const ice = await gatherIceCandidates(iceServers);
+  onStep('loopback');
+  const loopback = await testLoopback();
+  onStep('live');
+  const live = await requestLiveStats();
+  return {
+    generatedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    online: navigator.onLine,
+    relayConfigured: isRelayAvailable(),
+    broker,
+    ice,
+    loopback,
+    live
+  };
+}
@@ -0,0 +1,116 @@
+// Discovery of nearby devices: devices announce themselves to the presence route
+// and get back the others on the same network (same public IP) or in the same room.
+
+// How often a device announces itself while discovery is on
+export const PRESENCE_INTERVAL = 15000;
+
+// Seconds an announcement stays visible without being renewed
+export const PRESENCE_TTL = 45;
+
+// Route keeping track of who is around, overridable to use a shared service
+const PRESENCE_URL = process.env.NEXT_PUBLIC_PRESENCE_URL || '/api/presence';
+
+// localStorage keys
+const ENABLED_KEY = 'discoveryEnabled';
+const ROOM_KEY = 'discoveryRoom';
+
+export interface NearbyDevice {
+  peerId: string;
+  name: string;
+}
+
+export interface PresenceRequest {
+  peerId: string;
+  name: string;
+  // Optional room name, devices in the same room see each other whatever their network
+  room?: string;
+  // Set to stop being listed
+  leave?: boolean;
+}
+
+export interface PresenceResponse {
+  devices: NearbyDevice[];
+}
+
+/**
+ * Check whether this device looks for nearby devices
+ * @returns Whether discovery is on
+ */
+export function isDiscoveryEnabled(): boolean {
+  if (typeof window === 'undefined') return false;
+  try {
+    return localStorage.getItem(ENABLED_KEY) === 'true';
+  } catch (err) {
+    console.error('Failed to read discovery setting:', err);
+    return false;
+  }
+}
+
+/**
+ * Turn discovery on or off
+ * @param enabled Whether to announce this device and list the others
+ */
+export function setDiscoveryEnabled(enabled: boolean): void {
+  try {
+    localStorage.setItem(ENABLED_KEY, String(enabled));
+  } catch (err) {
+    console.error('Failed to save discovery setting:', err);
+  }
+}
+
+/**
+ * Get the room name used for discovery
+ * @returns Room name, empty to group by network
+ */
+export function getDiscoveryRoom(): string {
+  if (typeof window === 'undefined') return '';
+  try {
+    return localStorage.getItem(ROOM_KEY) || '';
+  } catch (err) {
+    console.error('Failed to read discovery room:', err);
+    return '';
+  }
+}
+
+/**
+ * Set the room name used for discovery
+ * @param room Room name, empty to group by network
+ */
+export function setDiscoveryRoom(room: string): void {
+  try {
+    localStorage.setItem(ROOM_KEY, room);
+  } catch (err) {
+    console.error('Failed to save discovery room:', err);
+  }
+}
+
+/**
+ * Announce this device and list the others around
+ * @param presence This device
+ * @returns Other devices on the same network or in the same room
+ */
+export async function announcePresence(presence: PresenceRequest): Promise<NearbyDevice[]> {
+  const response = await fetch(PRESENCE_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(presence),
+    cache: 'no-store'
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Presence request failed with status ${response.status}`);
+  }
+  const result: PresenceResponse = await response.json();
+  return result.devices;
+}
+
+/**
+ * Stop being listed, also works while the page is unloading
+ * @param presence This device
+ */
+export function leavePresence(presence: PresenceRequest): void {
+  const body = JSON.stringify({ ...presence, leave: true });
+  if (navigator.sendBeacon?.(PRESENCE_URL, new Blob([body], { type: 'application/json' }))) return;
+  fetch(PRESENCE_URL, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, keepalive: true })
+    .catch(() => {});
+}
@@ -0,0 +1,262 @@
+"use client";
+
+// Writes large received files to disk as their chunks arrive, so they never have
+// to fit in memory. Uses the File System Access API when the user picked a save
+// location, otherwise a service worker that streams the file into a browser download.
+//
+// Sinks only append: chunks must be written in file order, which the reliable,
+// ordered data channel delivers. The receiver acknowledges chunks only once the
+// sink has written them, so a slow disk holds back the sender instead of piling
+// chunks up in memory.
+
+// Files at least this large are streamed to disk instead of being assembled in memory
+export const STREAM_TO_DISK_THRESHOLD = 256 * 1024 * 1024;
+
+const SERVICE_WORKER_URL = '/stream-sw.js';
+
+// Idle service workers get stopped, pinging keeps it alive during long downloads
+const SERVICE_WORKER_KEEPALIVE_INTERVAL = 10000;
+
+// How long the download frame stays around after the last chunk
+const DOWNLOAD_FRAME_LIFETIME = 60000;
+
+export type DiskSinkKind = 'file-system' | 'service-worker';
+
+// Destination a file is appended to, in order
+export interface DiskSink {
+  readonly kind: DiskSinkKind;
+  // Queue data to be written after everything written before it
+  write: (data: ArrayBuffer) => void;
+  // Resolves once everything queued so far has been written, rejects if a write failed
+  drain: () => Promise<void>;
+  // Wait for the queued writes and finish the file
+  close: () => Promise<void>;
+  // Discard the file
+  abort: () => void;
+}
+
+// A file the user chose to receive, as needed to pick its save location
+interface SaveTargetFile {
+  fileId: string;
+  name: string;
+  path?: string;
+}
+
+interface SinkTarget {
+  write: (data: ArrayBuffer) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+/**
+ * Check whether the browser can write to a file picked by the user
+ * @returns Whether the File System Access API is available
+ */
+export function supportsFileSystemAccess(): boolean {
+  return typeof window !== 'undefined' && typeof window.showSaveFilePicker === 'function';
+}
+
+/**
+ * Check whether downloads can be streamed through a service worker
+ * @returns Whether service workers are available on this page
+ */
+export function supportsServiceWorkerDownload(): boolean {
+  return typeof window !== 'undefined' && window.isSecureContext && 'serviceWorker' in navigator;
+}
+
+/**
+ * Decide whether a file is large enough to be streamed to disk, and can be
+ * @param size File size in bytes
+ * @returns Whether to use a disk sink
+ */
+export function shouldStreamToDisk(size: number): boolean {
+  return size >= STREAM_TO_DISK_THRESHOLD && (supportsFileSystemAccess() || supportsServiceWorkerDownload());
+}
+
+/**
+ * Ask the user where to save files, must be called from a click handler
+ * @param files Files that will be streamed to disk
+ * @returns File handles keyed by file ID, empty when no location was picked
+ */
+export async function pickSaveTargets(files: SaveTargetFile[]): Promise<Map<string, FileSystemFileHandle>> {
+  const targets = new Map<string, FileSystemFileHandle>();
+  // Without a user gesture the pickers throw, the service worker download is used instead
+  if (files.length === 0 || !supportsFileSystemAccess() || !navigator.userActivation?.isActive) {
+    return targets;
+  }
+
+  try {
+    if (files.length === 1) {
+      targets.set(files[0].fileId, await window.showSaveFilePicker!({ suggestedName: files[0].name }));
+    } else if (window.showDirectoryPicker) {
+      // One prompt for several files, their folders are recreated inside the chosen directory
+      const root = await window.showDirectoryPicker({ mode: 'readwrite' });
+      for (const file of files) {
+        const segments = (file.path || file.name).split('/');
+        let directory = root;
+        for (const segment of segments.slice(0, -1)) {
+          directory = await directory.getDirectoryHandle(segment, { create: true });
+        }
+        targets.set(file.fileId, await directory.getFileHandle(segments[segments.length - 1], { create: true }));
+      }
+    }
+  } catch (err) {
+    console.warn('No save location picked, using a browser download:', err);
+    targets.clear();
+  }
+  return targets;
+}
+
+/**
+ * Open a writable stream on a file picked by the user
+ * @param handle Picked file
+ * @returns Sink target
+ */
+async function openFileSystemTarget(handle: FileSystemFileHandle): Promise<SinkTarget> {
+  // Data goes to a temporary file until close, so abort leaves nothing behind
+  const writable = await handle.createWritable();
+  return {
+    write: (data) => writable.write(data),
+    close: () => writable.close(),
+    abort: () => writable.abort()
+  };
+}
+
+/**
+ * Start a browser download fed by a service worker
+ * @param name File name
+ * @param size File size in bytes
+ * @param type MIME type
+ * @returns Sink target
+ */
+async function openServiceWorkerTarget(name: string, size: number, type: string): Promise<SinkTarget> {
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const registration = await navigator.serviceWorker.ready;
+  if (!registration.active) {
+    throw new Error('Download service worker is not active');
+  }
+
+  // The worker asks for each chunk once its stream has room, chunks are only sent when asked for
+  let requestedChunks = 0;
+  let cancelled = false;
+  let onRequest: (() => void) | null = null;
+
+  const channel = new MessageChannel();
+  const url = await new Promise<string>((resolve, reject) => {
+    channel.port1.onmessage = (event) => {
+      const type = event.data?.type;
+      if (type === 'ready') {
+        resolve(event.data.url);
+      } else if (type === 'pull') {
+        requestedChunks++;
+      } else if (type === 'cancelled') {
+        // The user cancelled the download in the browser
+        cancelled = true;
+      } else {
+        reject(new Error('Download service worker did not accept the file'));
+        return;
+      }
+      onRequest?.();
+    };
+    registration.active!.postMessage({ type: 'stream-download', name, size, dataType: type }, [channel.port2]);
+  });
+
+  const waitForRequest = () => new Promise<void>((resolve, reject) => {
+    const check = () => {
+      if (cancelled) {
+        onRequest = null;
+        reject(new Error('Download was cancelled'));
+      } else if (requestedChunks > 0) {
+        onRequest = null;
+        requestedChunks--;
+        resolve();
+      }
+    };
+    onRequest = check;
+    check();
+  });
+
+  // Loading the URL in a hidden frame hands the stream to the browser's download manager
+  const frame = document.createElement('iframe');
+  frame.hidden = true;
+  frame.src = url;
+  document.body.appendChild(frame);
+
+  const keepAlive = setInterval(() => channel.port1.postMessage({ type: 'ping' }), SERVICE_WORKER_KEEPALIVE_INTERVAL);
+  const cleanup = () => {
+    clearInterval(keepAlive);
+    setTimeout(() => frame.remove(), DOWNLOAD_FRAME_LIFETIME);
+  };
+
+  return {
+    write: async (data) => {
+      await waitForRequest();
+      channel.port1.postMessage({ type: 'chunk', data }, [data]);
+    },
+    close: async () => {
+      channel.port1.postMessage({ type: 'end' });
+      cleanup();
+    },
+    abort: async () => {
+      // Release a write still waiting for the worker to ask for it
+      cancelled = true;
+      onRequest?.();
+      channel.port1.postMessage({ type: 'abort' });
+      cleanup();
+    }
+  };
+}
+
+/**
+ * Create a sink that is usable right away, writes wait until the target is open
+ * @param kind Kind of target
+ * @param opening Target being opened
+ * @returns Disk sink
+ */
+function createSink(kind: DiskSinkKind, opening: Promise<SinkTarget>): DiskSink {
+  let chain: Promise<SinkTarget> = opening;
+  // Failures surface through close(), avoid unhandled rejections until then
+  chain.catch(() => {});
+
+  return {
+    kind,
+    write: (data) => {
+      chain = chain.then(async (target) => {
+        await target.write(data);
+        return target;
+      });
+      chain.catch(() => {});
+    },
+    drain: async () => {
+      await chain;
+    },
+    close: async () => {
+      const target = await chain;
+      await target.close();
+    },
+    // Not queued behind the writes, they may be waiting for room that never comes
+    abort: () => {
+      opening.then(target => target.abort()).catch((err) => {
+        console.warn('Failed to discard file:', err);
+      });
+    }
+  };
+}
+
+/**
+ * Open the disk sink for a file that is about to arrive
+ * @param name File name
+ * @param size File size in bytes
+ * @param type MIME type
+ * @param handle Save location picked by the user, if any
+ * @returns Disk sink, or null when the file has to be kept in memory
+ */
+export function openDiskSink(name: string, size: number, type: string, handle?: FileSystemFileHandle): DiskSink | null {
+  if (handle) {
+    return createSink('file-system', openFileSystemTarget(handle));
+  }
+  if (supportsServiceWorkerDownload()) {
+    return createSink('service-worker', openServiceWorkerTarget(name, size, type));
+  }
+  return null;
+}
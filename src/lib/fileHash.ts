@@ -0,0 +1,22 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+
+// Incremental SHA-256, so large files never need to be hashed in one piece
+export interface FileHasher {
+  update: (data: ArrayBuffer) => void;
+  digest: () => string;
+}
+
+/**
+ * Create an incremental SHA-256 hasher
+ * @returns Hasher producing a lowercase hex digest
+ */
+export function createFileHasher(): FileHasher {
+  const hash = sha256.create();
+  return {
+    update: (data: ArrayBuffer) => {
+      hash.update(new Uint8Array(data));
+    },
+    digest: () => bytesToHex(hash.digest())
+  };
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { FileOfferMessage, FileChunkMessage } from './transferProtocol';
+import { createFileHasher, FileHasher } from './fileHash';
+import { DiskSink } from './diskSink';
+
+// A file whose chunks are still arriving
+export interface IncomingFile {
+  fileId: string;
+  name: string;
+  size: number;
+  type: string;
+  chunkSize: number;
+  totalChunks: number;
+  chunks: ArrayBuffer[];
+  receivedChunks: number;
+  receivedBytes: number;
+  // Number of chunks received without gaps from the start of the file
+  contiguousChunks: number;
+  // Fed with chunks in order as the contiguous prefix grows
+  hasher: FileHasher;
+  // Where chunks are written instead of being kept in memory, for large files
+  sink: DiskSink | null;
+}
+
+/**
+ * Start tracking a file announced by the sender
+ * @param offer File offer frame
+ * @param sink Disk sink to stream the file to, if any
+ * @returns Empty incoming file
+ */
+export function createIncomingFile(offer: FileOfferMessage, sink: DiskSink | null = null): IncomingFile {
+  return {
+    fileId: offer.fileId,
+    name: offer.name,
+    size: offer.size,
+    type: offer.dataType,
+    chunkSize: offer.chunkSize,
+    totalChunks: offer.totalChunks,
+    chunks: new Array(offer.totalChunks),
+    receivedChunks: 0,
+    receivedBytes: 0,
+    contiguousChunks: 0,
+    hasher: createFileHasher(),
+    sink
+  };
+}
+
+/**
+ * Store a received chunk in its slot
+ * @param file Incoming file
+ * @param chunk File chunk frame
+ */
+export function addChunk(file: IncomingFile, chunk: FileChunkMessage): void {
+  if (chunk.index < 0 || chunk.index >= file.totalChunks) {
+    console.warn('Ignoring out of range chunk', chunk.index, 'for', file.name);
+    return;
+  }
+  if (file.sink) {
+    // Disk sinks only append, so only the next chunk in order is taken. The ordered channel
+    // delivers nothing else, apart from chunks repeated by a resume that are already written.
+    if (chunk.index !== file.contiguousChunks) return;
+    file.receivedChunks++;
+    file.receivedBytes += chunk.data.byteLength;
+    file.contiguousChunks++;
+    // Hash before writing, the sink may take ownership of the buffer
+    file.hasher.update(chunk.data);
+    file.sink.write(chunk.data);
+    return;
+  }
+
+  // Ignore duplicates so progress is not counted twice
+  if (file.chunks[chunk.index]) return;
+
+  file.chunks[chunk.index] = chunk.data;
+  file.receivedChunks++;
+  file.receivedBytes += chunk.data.byteLength;
+
+  while (file.contiguousChunks < file.totalChunks && file.chunks[file.contiguousChunks]) {
+    file.hasher.update(file.chunks[file.contiguousChunks]);
+    file.contiguousChunks++;
+  }
+}
+
+/**
+ * Get the byte offset up to which the file has been received without gaps
+ * @param file Incoming file
+ * @returns Offset the sender can resume from
+ */
+export function getContiguousOffset(file: IncomingFile): number {
+  return Math.min(file.size, file.contiguousChunks * file.chunkSize);
+}
+
+/**
+ * Check whether every chunk of the file has arrived
+ * @param file Incoming file
+ * @returns Whether the file is complete
+ */
+export function isFileComplete(file: IncomingFile): boolean {
+  return file.receivedChunks === file.totalChunks;
+}
+
+/**
+ * Check the received bytes against the hash computed by the sender
+ * @param file Complete incoming file
+ * @param expectedHash Hex SHA-256 from the sender
+ * @returns Whether the hashes match
+ */
+export function verifyFileHash(file: IncomingFile, expectedHash: string): boolean {
+  return file.hasher.digest() === expectedHash.toLowerCase();
+}
+
+/**
+ * Combine received chunks into a Blob
+ * @param file Incoming file
+ * @returns Reassembled file data
+ */
+export function assembleFile(file: IncomingFile): Blob {
+  const blob = new Blob(file.chunks, { type: file.type });
+  // Let the chunk buffers be garbage collected
+  file.chunks = [];
+  return blob;
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import {
+  CHUNK_SIZE,
+  MAX_BUFFERED_AMOUNT,
+  BUFFERED_AMOUNT_LOW_THRESHOLD,
+  MAX_UNACKED_BYTES,
+  createFileId,
+  FileOfferMessage,
+  FileChunkMessage,
+  FileCompleteMessage
+} from './transferProtocol';
+import { createFileHasher } from './fileHash';
+import type { DataChannelLike } from './relayTransport';
+
+// What sending needs from a connection, a secure channel or a data connection
+type ChunkConnection = Pick<DataChannelLike, 'open' | 'bufferSize' | 'dataChannel' | 'send'>;
+
+/**
+ * Check whether the connection has too much data waiting to be sent
+ * @param conn Connection to send on
+ * @returns Whether sending should pause
+ */
+function isCongested(conn: ChunkConnection): boolean {
+  const channel = conn.dataChannel;
+  // PeerJS keeps its own queue when the channel is full
+  const pendingInPeer = (conn.bufferSize || 0) * CHUNK_SIZE;
+  const buffered = channel ? channel.bufferedAmount : 0;
+  return buffered + pendingInPeer > MAX_BUFFERED_AMOUNT;
+}
+
+/**
+ * Wait until the data channel has drained enough to accept more chunks
+ * @param conn Connection to send on
+ */
+function waitForDrain(conn: ChunkConnection): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const channel = conn.dataChannel;
+
+    const check = () => {
+      if (!conn.open) {
+        cleanup();
+        reject(new Error('Connection closed'));
+      } else if (!isCongested(conn)) {
+        cleanup();
+        resolve();
+      }
+    };
+
+    // bufferedamountlow does not fire for PeerJS's own queue, so poll as well
+    const intervalId = setInterval(check, 50);
+    const cleanup = () => {
+      clearInterval(intervalId);
+      if (channel) channel.removeEventListener('bufferedamountlow', check);
+    };
+
+    if (channel) {
+      channel.bufferedAmountLowThreshold = BUFFERED_AMOUNT_LOW_THRESHOLD;
+      channel.addEventListener('bufferedamountlow', check);
+    }
+    check();
+  });
+}
+
+// How often to check whether the receiver caught up
+const ACK_POLL_INTERVAL = 50;
+
+/**
+ * Wait until the receiver has acknowledged enough to send more
+ * @param conn Connection to send on
+ * @param offset Offset of the next chunk
+ * @param getAckedOffset Returns the receiver's latest acknowledged offset
+ * @param signal Stops waiting when aborted
+ */
+function waitForAck(conn: ChunkConnection, offset: number, getAckedOffset: () => number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (!conn.open) {
+        clearInterval(intervalId);
+        reject(new Error('Connection closed'));
+      } else if (signal?.aborted) {
+        clearInterval(intervalId);
+        reject(new Error('Transfer stopped'));
+      } else if (offset - getAckedOffset() <= MAX_UNACKED_BYTES) {
+        clearInterval(intervalId);
+        resolve();
+      }
+    };
+    const intervalId = setInterval(check, ACK_POLL_INTERVAL);
+    check();
+  });
+}
+
+export interface SendFileOptions {
+  // Reuse an existing transfer ID, e.g. when resuming
+  fileId?: string;
+  // Ask the receiver where to continue instead of starting from the beginning
+  resume?: boolean;
+  // Resolves with the byte offset the receiver has acknowledged, rejects once the signal aborts
+  waitForResumeOffset?: (fileId: string, signal?: AbortSignal) => Promise<number>;
+  // Latest offset the receiver acknowledged, sending pauses while it lags too far behind
+  getAckedOffset?: () => number;
+  // Called once the offer has been sent
+  onOffer?: (offer: FileOfferMessage) => void;
+  // Called after each chunk with the total bytes handed to the channel
+  onProgress?: (sentBytes: number) => void;
+  // Stops sending after the current chunk, used to pause or cancel
+  signal?: AbortSignal;
+}
+
+/**
+ * Send a file as an offer, a series of chunks and a completion frame
+ * @param conn Open connection, usually a secure channel
+ * @param file File to send
+ * @param options Transfer ID, resume and progress options
+ * @returns ID of the sent file
+ */
+export async function sendFileInChunks(conn: ChunkConnection, file: File, options: SendFileOptions = {}): Promise<string> {
+  const fileId = options.fileId || createFileId();
+  const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
+
+  const offer: FileOfferMessage = {
+    type: 'file-offer',
+    fileId,
+    name: file.name,
+    size: file.size,
+    dataType: file.type || 'application/octet-stream',
+    chunkSize: CHUNK_SIZE,
+    totalChunks,
+    resume: options.resume
+  };
+  conn.send(offer);
+  if (options.onOffer) options.onOffer(offer);
+
+  let startIndex = 0;
+  if (options.resume && options.waitForResumeOffset) {
+    const resumeOffset = await options.waitForResumeOffset(fileId, options.signal);
+    startIndex = Math.min(totalChunks, Math.floor(resumeOffset / CHUNK_SIZE));
+    if (options.onProgress) options.onProgress(startIndex * CHUNK_SIZE);
+  }
+
+  // Chunks already received still have to be part of the hash. They are read again instead of
+  // keeping the hash state from the interrupted run: that state is at the last chunk sent, and
+  // the receiver may resume from any earlier chunk it has without gaps.
+  const hasher = createFileHasher();
+  for (let index = 0; index < startIndex; index++) {
+    if (options.signal?.aborted) {
+      throw new Error('Transfer stopped');
+    }
+    const offset = index * CHUNK_SIZE;
+    hasher.update(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+  }
+
+  for (let index = startIndex; index < totalChunks; index++) {
+    const offset = index * CHUNK_SIZE;
+    if (isCongested(conn)) {
+      await waitForDrain(conn);
+    }
+    if (options.getAckedOffset && offset - options.getAckedOffset() > MAX_UNACKED_BYTES) {
+      await waitForAck(conn, offset, options.getAckedOffset, options.signal);
+    }
+    if (!conn.open) {
+      throw new Error('Connection closed');
+    }
+    if (options.signal?.aborted) {
+      throw new Error('Transfer stopped');
+    }
+
+    // Only one window of the file is held in memory at a time
+    const data = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    hasher.update(data);
+
+    const chunk: FileChunkMessage = {
+      type: 'file-chunk',
+      fileId,
+      index,
+      offset,
+      data
+    };
+    conn.send(chunk);
+    if (options.onProgress) options.onProgress(offset + data.byteLength);
+  }
+
+  const complete: FileCompleteMessage = {
+    type: 'file-complete',
+    fileId,
+    sha256: hasher.digest()
+  };
+  conn.send(complete);
+
+  return fileId;
+}
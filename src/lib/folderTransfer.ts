@@ -0,0 +1,214 @@
+"use client";
+
+import { Zip, ZipPassThrough } from 'fflate';
+
+// Size of the slices read from each file while it is added to a ZIP archive
+const ZIP_READ_SIZE = 1024 * 1024;
+
+// A file picked for sending, with its path when it came from a folder
+export interface SelectedFile {
+  file: File;
+  // Relative path including the folder name, e.g. "photos/2024/img.jpg"
+  path?: string;
+}
+
+// A folder or file in the tree shown to the receiver
+export interface FolderTreeNode<T> {
+  name: string;
+  path: string;
+  size: number;
+  children: FolderTreeNode<T>[];
+  // Set on file nodes only
+  file?: T;
+}
+
+/**
+ * Wrap the files of an input, keeping the paths set by webkitdirectory
+ * @param files Files from a file input
+ * @returns Selected files
+ */
+export function getSelectedFiles(files: FileList): SelectedFile[] {
+  return Array.from(files).map(file => ({
+    file,
+    path: file.webkitRelativePath || undefined
+  }));
+}
+
+/**
+ * Read every entry of a directory, the reader returns them in batches
+ * @param directory Dropped directory
+ * @returns Entries directly inside the directory
+ */
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+/**
+ * Collect the files below a dropped entry
+ * @param entry File or directory entry
+ * @param results Files found so far
+ */
+async function collectEntry(entry: FileSystemEntry, results: SelectedFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    // fullPath starts with a slash, e.g. "/photos/img.jpg"
+    const path = entry.fullPath.replace(/^\/+/, '');
+    results.push({ file, path: path.includes('/') ? path : undefined });
+  } else if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    for (const child of children) {
+      await collectEntry(child, results);
+    }
+  }
+}
+
+/**
+ * Get the files of a drop, walking into dropped folders
+ * @param dataTransfer Drop event data
+ * @returns Selected files with their folder paths
+ */
+export async function getDroppedFiles(dataTransfer: DataTransfer): Promise<SelectedFile[]> {
+  // Entries must be taken before the first await, the item list is cleared afterwards
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry ? item.webkitGetAsEntry() : null);
+
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return getSelectedFiles(dataTransfer.files);
+  }
+
+  const results: SelectedFile[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry as FileSystemEntry, results);
+  }
+  return results;
+}
+
+/**
+ * Make a received path safe to use inside a ZIP archive
+ * @param path Path sent by the other device
+ * @returns Path without empty, "." or ".." segments
+ */
+export function sanitizePath(path: string): string {
+  return path
+    .split(/[\\/]+/)
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/');
+}
+
+/**
+ * Build a folder tree from file paths
+ * @param files Files with their relative paths
+ * @returns Top-level nodes, folders before files
+ */
+export function buildFolderTree<T extends { path: string; size: number }>(files: T[]): FolderTreeNode<T>[] {
+  const root: FolderTreeNode<T> = { name: '', path: '', size: 0, children: [] };
+
+  files.forEach(file => {
+    const segments = file.path.split('/');
+    let node = root;
+    node.size += file.size;
+    segments.forEach((segment, i) => {
+      const isFile = i === segments.length - 1;
+      let child = isFile ? undefined : node.children.find(c => !c.file && c.name === segment);
+      if (!child) {
+        child = {
+          name: segment,
+          path: segments.slice(0, i + 1).join('/'),
+          size: 0,
+          children: [],
+          file: isFile ? file : undefined
+        };
+        node.children.push(child);
+      }
+      child.size += file.size;
+      node = child;
+    });
+  });
+
+  const sortNodes = (nodes: FolderTreeNode<T>[]) => {
+    nodes.sort((a, b) => (a.file ? 1 : 0) - (b.file ? 1 : 0) || a.name.localeCompare(b.name));
+    nodes.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(root.children);
+  return root.children;
+}
+
+/**
+ * Give every file its own path, numbering repeated ones the way browsers number downloads
+ * @param paths Relative paths
+ * @returns Paths in the same order, none repeated or equal to a folder of another path
+ */
+export function makeUniquePaths(paths: string[]): string[] {
+  const folders = new Set<string>();
+  paths.forEach(path => {
+    const segments = path.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      folders.add(segments.slice(0, i).join('/'));
+    }
+  });
+
+  const used = new Set<string>();
+  return paths.map(path => {
+    // "photos/img.jpg" becomes "photos/img (2).jpg"
+    const dot = path.lastIndexOf('.');
+    const [stem, extension] = dot > path.lastIndexOf('/') + 1 ? [path.slice(0, dot), path.slice(dot)] : [path, ''];
+    let unique = path;
+    for (let n = 2; used.has(unique) || folders.has(unique); n++) {
+      unique = `${stem} (${n})${extension}`;
+    }
+    used.add(unique);
+    return unique;
+  });
+}
+
+/**
+ * Stream files into a ZIP archive, recreating their folders
+ * @param files Files with their relative paths, repeated paths are numbered
+ * @param write Takes the pieces of the archive in order, resolves once it can take more
+ */
+export async function writeZip(files: { path: string; blob: Blob }[], write: (data: Uint8Array) => Promise<void>): Promise<void> {
+  let pieces: Uint8Array[] = [];
+  let failure: Error | null = null;
+  const archive = new Zip((err, data) => {
+    if (err) {
+      failure = err;
+    } else {
+      pieces.push(data);
+    }
+  });
+  // The archive hands out pieces synchronously, pass them on before reading more
+  const flush = async () => {
+    if (failure) throw failure;
+    const ready = pieces;
+    pieces = [];
+    for (const piece of ready) {
+      await write(piece);
+    }
+  };
+
+  const paths = makeUniquePaths(files.map(file => file.path));
+  for (let i = 0; i < files.length; i++) {
+    // Stored without compression, most large files are already compressed
+    const entry = new ZipPassThrough(paths[i]);
+    archive.add(entry);
+    const blob = files[i].blob;
+    if (blob.size === 0) {
+      entry.push(new Uint8Array(0), true);
+    }
+    for (let offset = 0; offset < blob.size; offset += ZIP_READ_SIZE) {
+      const data = new Uint8Array(await blob.slice(offset, offset + ZIP_READ_SIZE).arrayBuffer());
+      entry.push(data, offset + ZIP_READ_SIZE >= blob.size);
+      await flush();
+    }
+    await flush();
+  }
+  archive.end();
+  await flush();
+}
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HEARTBEAT_INTERVAL, getConnectionQuality, startHeartbeat, type HeartbeatMessage } from './heartbeat';
+
+/**
+ * Start a heartbeat with spied callbacks
+ * @param maxMissed Beats before the peer is declared dead
+ * @returns Heartbeat and its callbacks
+ */
+function setup(maxMissed?: number) {
+  const callbacks = {
+    send: vi.fn<(message: HeartbeatMessage) => void>(),
+    onUpdate: vi.fn<(rtt: number | null, missed: number) => void>(),
+    onDead: vi.fn<() => void>()
+  };
+  return { heartbeat: startHeartbeat(callbacks, maxMissed), callbacks };
+}
+
+describe('startHeartbeat', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'setTimeout', 'clearTimeout', 'performance'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('pings right away and on every interval', () => {
+    const { heartbeat, callbacks } = setup();
+    expect(callbacks.send).toHaveBeenCalledTimes(1);
+    expect(callbacks.send.mock.calls[0][0].type).toBe('ping');
+    heartbeat.seen();
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL);
+    expect(callbacks.send).toHaveBeenCalledTimes(2);
+    heartbeat.stop();
+  });
+
+  it('answers pings with a pong carrying the same timestamp', () => {
+    const { heartbeat, callbacks } = setup();
+    heartbeat.handle({ type: 'ping', sentAt: 42 });
+    expect(callbacks.send).toHaveBeenLastCalledWith({ type: 'pong', sentAt: 42 });
+    heartbeat.stop();
+  });
+
+  it('measures the round trip from a pong', () => {
+    const { heartbeat, callbacks } = setup();
+    const ping = callbacks.send.mock.calls[0][0];
+    vi.advanceTimersByTime(120);
+    heartbeat.handle({ type: 'pong', sentAt: ping.sentAt });
+    expect(callbacks.onUpdate).toHaveBeenLastCalledWith(120, 0);
+    heartbeat.stop();
+  });
+
+  it('ignores pongs that do not echo our own clock', () => {
+    const { heartbeat, callbacks } = setup();
+    heartbeat.handle({ type: 'pong', sentAt: performance.now() + 1000 });
+    expect(callbacks.onUpdate).not.toHaveBeenCalled();
+    heartbeat.stop();
+  });
+
+  it('declares the peer dead after too many silent beats', () => {
+    const { callbacks } = setup(3);
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL * 2);
+    expect(callbacks.onUpdate).toHaveBeenLastCalledWith(null, 2);
+    expect(callbacks.onDead).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL);
+    expect(callbacks.onDead).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL * 3);
+    expect(callbacks.onDead).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts any frame from the peer as a sign of life', () => {
+    const { heartbeat, callbacks } = setup(2);
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL);
+    expect(callbacks.onUpdate).toHaveBeenLastCalledWith(null, 1);
+    heartbeat.seen();
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL);
+    expect(callbacks.onUpdate).toHaveBeenLastCalledWith(null, 0);
+    expect(callbacks.onDead).not.toHaveBeenCalled();
+    heartbeat.stop();
+  });
+
+  it('stops sending once stopped', () => {
+    const { heartbeat, callbacks } = setup();
+    heartbeat.stop();
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL * 5);
+    heartbeat.handle({ type: 'ping', sentAt: 1 });
+    expect(callbacks.send).toHaveBeenCalledTimes(1);
+    expect(callbacks.onDead).not.toHaveBeenCalled();
+  });
+});
+
+describe('getConnectionQuality', () => {
+  it('rates round trips and missed beats', () => {
+    expect(getConnectionQuality(null, 0)).toBeNull();
+    expect(getConnectionQuality(50, 0)).toBe('good');
+    expect(getConnectionQuality(300, 0)).toBe('fair');
+    expect(getConnectionQuality(800, 0)).toBe('poor');
+    expect(getConnectionQuality(50, 1)).toBe('poor');
+    expect(getConnectionQuality(null, 1)).toBe('poor');
+  });
+});
@@ -0,0 +1,121 @@
+// Heartbeat on an authenticated connection: each side pings the other and
+// measures the round trip. A peer that stops answering, e.g. because its lid
+// was closed, is declared unreachable even though the connection never closed.
+
+// How often a ping is sent
+export const HEARTBEAT_INTERVAL = 5000;
+
+// Beats in a row without any frame from the peer before it counts as gone
+export const DEFAULT_MAX_MISSED_HEARTBEATS = 3;
+
+// Round trips up to these limits count as good and fair, in milliseconds
+const GOOD_RTT = 150;
+const FAIR_RTT = 400;
+
+export interface PingMessage {
+  type: 'ping';
+  // Sender's clock when the ping went out, echoed back in the pong
+  sentAt: number;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  sentAt: number;
+}
+
+export type HeartbeatMessage = PingMessage | PongMessage;
+
+export type ConnectionQuality = 'good' | 'fair' | 'poor';
+
+export interface HeartbeatCallbacks {
+  send: (message: HeartbeatMessage) => void;
+  // Called with each measured round trip, and whenever missed beats change
+  onUpdate: (rtt: number | null, missed: number) => void;
+  // Called once when too many beats went unanswered
+  onDead: () => void;
+}
+
+export interface Heartbeat {
+  // Handle a ping or pong from the peer
+  handle: (message: HeartbeatMessage) => void;
+  // Note that the peer is alive, any frame counts
+  seen: () => void;
+  stop: () => void;
+}
+
+/**
+ * Start pinging a peer
+ * @param callbacks Sending and reporting
+ * @param maxMissed Beats without any frame from the peer before it is declared dead
+ * @returns Running heartbeat
+ */
+export function startHeartbeat(callbacks: HeartbeatCallbacks, maxMissed: number = DEFAULT_MAX_MISSED_HEARTBEATS): Heartbeat {
+  let rtt: number | null = null;
+  let missed = 0;
+  // Whether anything arrived since the last beat; during a large transfer
+  // the pong can sit behind file chunks, so chunks count as signs of life too
+  let seenSinceBeat = true;
+  let stopped = false;
+
+  const beat = () => {
+    if (seenSinceBeat) {
+      if (missed > 0) {
+        missed = 0;
+        callbacks.onUpdate(rtt, missed);
+      }
+    } else {
+      missed += 1;
+      callbacks.onUpdate(rtt, missed);
+      if (missed >= maxMissed) {
+        stop();
+        callbacks.onDead();
+        return;
+      }
+    }
+    seenSinceBeat = false;
+    callbacks.send({ type: 'ping', sentAt: performance.now() });
+  };
+
+  const intervalId = setInterval(beat, HEARTBEAT_INTERVAL);
+
+  const stop = () => {
+    stopped = true;
+    clearInterval(intervalId);
+  };
+
+  beat();
+
+  return {
+    handle: (message: HeartbeatMessage) => {
+      if (stopped) return;
+      seenSinceBeat = true;
+      if (message.type === 'ping') {
+        callbacks.send({ type: 'pong', sentAt: message.sentAt });
+        return;
+      }
+      const measured = performance.now() - message.sentAt;
+      // Pongs echo our own clock, anything else was not our ping
+      if (measured < 0 || measured > HEARTBEAT_INTERVAL * maxMissed) return;
+      rtt = Math.round(measured);
+      missed = 0;
+      callbacks.onUpdate(rtt, missed);
+    },
+    seen: () => {
+      seenSinceBeat = true;
+    },
+    stop
+  };
+}
+
+/**
+ * Rate a connection from its heartbeat
+ * @param rtt Last round trip in milliseconds, null before the first pong
+ * @param missed Beats in a row without an answer
+ * @returns Quality, or null while nothing was measured yet
+ */
+export function getConnectionQuality(rtt: number | null, missed: number): ConnectionQuality | null {
+  if (missed > 0) return 'poor';
+  if (rtt === null) return null;
+  if (rtt <= GOOD_RTT) return 'good';
+  return rtt <= FAIR_RTT ? 'fair' : 'poor';
+}
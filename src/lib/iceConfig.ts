@@ -0,0 +1,155 @@
+// ICE server configuration shared by every PeerJS instance, and inspection of the
+// candidate pair a connection ended up using.
+
+// Public STUN servers used when nothing else is configured
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+  { urls: 'stun:stun2.l.google.com:19302' },
+  { urls: 'stun:stun3.l.google.com:19302' },
+  { urls: 'stun:stun4.l.google.com:19302' },
+  { urls: 'stun:global.stun.twilio.com:3478' },
+  { urls: 'stun:stun.stunprotocol.org:3478' }
+];
+
+// Candidates gathered ahead of time so connecting is faster
+export const ICE_CANDIDATE_POOL_SIZE = 10;
+
+// Route serving the ICE servers, overridable to use an external credentials service
+const ICE_CONFIG_URL = process.env.NEXT_PUBLIC_ICE_CONFIG_URL || '/api/ice-servers';
+
+// How long to wait for the ICE route before falling back to the defaults
+const ICE_CONFIG_TIMEOUT = 5000;
+
+// Time before the TURN credentials expire at which they are fetched again
+const ICE_CONFIG_REFRESH_MARGIN = 60 * 1000;
+
+// How data travels between the two devices; websocket is the app's own relay, used when WebRTC fails
+export type ConnectionRoute = 'direct' | 'stun' | 'relay' | 'websocket';
+
+// Local or remote candidate from getStats(), not part of TypeScript's DOM types
+export interface CandidateStats extends RTCStats {
+  candidateType: RTCIceCandidateType;
+  protocol?: string;
+  // Chrome and Firefox name the address differently, either may be hidden
+  address?: string;
+  ip?: string;
+  port?: number;
+}
+
+export interface IceConfigResponse {
+  iceServers: RTCIceServer[];
+  // Seconds the TURN credentials stay valid, when they are time-limited
+  ttl?: number;
+}
+
+// Last fetched ICE servers, reused until their credentials are about to expire
+let cachedIceServers: { iceServers: RTCIceServer[]; expiresAt: number } | null = null;
+
+/**
+ * Fetch the ICE servers to use, including TURN credentials when the server provides them
+ * @returns ICE servers for RTCPeerConnection, cached until the credentials' ttl runs out
+ */
+export async function loadIceServers(): Promise<RTCIceServer[]> {
+  if (cachedIceServers && Date.now() < cachedIceServers.expiresAt) {
+    return cachedIceServers.iceServers;
+  }
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), ICE_CONFIG_TIMEOUT);
+  try {
+    const response = await fetch(ICE_CONFIG_URL, { cache: 'no-store', signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`ICE config request failed with status ${response.status}`);
+    }
+    const config: IceConfigResponse = await response.json();
+    if (!Array.isArray(config.iceServers)) {
+      throw new Error('ICE config response has no iceServers');
+    }
+    // Without a ttl the credentials do not expire; short ones are refreshed halfway through
+    const lifetime = typeof config.ttl === 'number' && config.ttl > 0
+      ? Math.max(config.ttl * 500, config.ttl * 1000 - ICE_CONFIG_REFRESH_MARGIN)
+      : Infinity;
+    cachedIceServers = { iceServers: config.iceServers, expiresAt: Date.now() + lifetime };
+    return config.iceServers;
+  } catch (err) {
+    console.warn('Using default ICE servers:', err);
+    return DEFAULT_ICE_SERVERS;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Classify a local ICE candidate type
+ * @param candidateType host, srflx, prflx or relay
+ * @returns Route the candidate implies
+ */
+function routeForCandidateType(candidateType: string): ConnectionRoute {
+  if (candidateType === 'relay') return 'relay';
+  if (candidateType === 'srflx' || candidateType === 'prflx') return 'stun';
+  return 'direct';
+}
+
+/**
+ * Find out whether the active candidate pair is direct, STUN-reflexive or relayed
+ * @param pc Peer connection behind a data connection
+ * @returns Route of the selected candidate pair, or null when none is selected yet
+ */
+export async function getConnectionRoute(pc: RTCPeerConnection | undefined): Promise<ConnectionRoute | null> {
+  if (!pc) return null;
+
+  const stats = await pc.getStats();
+  const pair = getSelectedCandidatePair(stats);
+  if (!pair) return null;
+
+  const local: CandidateStats | undefined = stats.get(pair.localCandidateId);
+  const remote: CandidateStats | undefined = stats.get(pair.remoteCandidateId);
+  if (!local || !remote) return null;
+
+  // Either side relaying means the data goes through a TURN server
+  if (local.candidateType === 'relay' || remote.candidateType === 'relay') return 'relay';
+  const localRoute = routeForCandidateType(local.candidateType);
+  const remoteRoute = routeForCandidateType(remote.candidateType);
+  return localRoute === 'stun' || remoteRoute === 'stun' ? 'stun' : 'direct';
+}
+
+// Firefox flags the pair in use instead of reporting transport stats
+type CandidatePairStats = RTCIceCandidatePairStats & { selected?: boolean };
+
+/**
+ * Find the candidate pair a connection is using
+ * @param stats Report from RTCPeerConnection.getStats()
+ * @returns Candidate pair stats, or undefined when none is selected yet
+ */
+export function getSelectedCandidatePair(stats: RTCStatsReport): RTCIceCandidatePairStats | undefined {
+  let selectedPairId: string | undefined;
+  stats.forEach((report: RTCStats) => {
+    if (report.type === 'transport' && (report as RTCTransportStats).selectedCandidatePairId) {
+      selectedPairId = (report as RTCTransportStats).selectedCandidatePairId;
+    }
+  });
+
+  let pair: RTCIceCandidatePairStats | undefined = selectedPairId ? stats.get(selectedPairId) : undefined;
+  if (!pair) {
+    stats.forEach((report: RTCStats) => {
+      if (report.type !== 'candidate-pair') return;
+      const candidatePair = report as CandidatePairStats;
+      if (candidatePair.state === 'succeeded' && (candidatePair.selected || candidatePair.nominated)) {
+        pair = candidatePair;
+      }
+    });
+  }
+  return pair;
+}
+
+/**
+ * Label shown for a connection route
+ * @param route Connection route
+ * @returns Short description
+ */
+export function getRouteLabel(route: ConnectionRoute): string {
+  if (route === 'websocket') return 'Relayed (WebSocket)';
+  if (route === 'relay') return 'Relayed (TURN)';
+  if (route === 'stun') return 'Direct via NAT (STUN)';
+  return 'Direct (local network)';
+}
@@ -0,0 +1,82 @@
+// Short numeric codes standing in for a peer ID, so it can be read out loud.
+// The code registry route maps them to peer IDs for a limited time.
+
+// Digits in a pairing code
+export const PAIRING_CODE_LENGTH = 6;
+
+// Seconds a pairing code stays valid
+export const PAIRING_CODE_TTL = 600;
+
+// Route holding the codes, overridable to use an external registry
+const PAIRING_CODE_URL = process.env.NEXT_PUBLIC_PAIRING_CODE_URL || '/api/pairing-codes';
+
+export interface PairingCodeResponse {
+  code: string;
+  // Milliseconds since the epoch
+  expiresAt: number;
+  // Secret that lets the same device replace this code with a new one
+  token: string;
+}
+
+export interface PairingCodeLookupResponse {
+  peerId: string;
+}
+
+/**
+ * Read a pairing code typed with or without separators
+ * @param input User input, e.g. "123 456" or "123-456"
+ * @returns The digits, or null if the input is not a pairing code
+ */
+export function normalizePairingCode(input: string): string | null {
+  const digits = input.replace(/[\s-]/g, '');
+  return new RegExp(`^\\d{${PAIRING_CODE_LENGTH}}$`).test(digits) ? digits : null;
+}
+
+/**
+ * Format a pairing code for display
+ * @param code Code digits
+ * @returns Code split in two groups
+ */
+export function formatPairingCode(code: string): string {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)} ${code.slice(half)}`;
+}
+
+/**
+ * Get a pairing code pointing to a peer ID
+ * @param peerId This device's peer ID
+ * @param previous Code this device got earlier, removed when the new one is issued
+ * @returns Code, its expiry time and the token to replace it
+ */
+export async function registerPairingCode(peerId: string, previous?: PairingCodeResponse | null): Promise<PairingCodeResponse> {
+  const replaces = previous ? { code: previous.code, token: previous.token } : undefined;
+  const response = await fetch(PAIRING_CODE_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ peerId, replaces })
+  });
+  if (!response.ok) {
+    throw new Error(`Pairing code request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Look up the peer ID behind a pairing code
+ * @param code Code digits
+ * @returns Peer ID
+ */
+export async function resolvePairingCode(code: string): Promise<string> {
+  const response = await fetch(`${PAIRING_CODE_URL}?code=${encodeURIComponent(code)}`, { cache: 'no-store' });
+  if (response.status === 404) {
+    throw new Error('Unknown or expired pairing code');
+  }
+  if (response.status === 429) {
+    throw new Error('Too many attempts, try again in a minute');
+  }
+  if (!response.ok) {
+    throw new Error(`Pairing code lookup failed with status ${response.status}`);
+  }
+  const result: PairingCodeLookupResponse = await response.json();
+  return result.peerId;
+}
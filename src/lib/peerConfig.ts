@@ -0,0 +1,45 @@
+// Signaling broker settings, read from NEXT_PUBLIC_PEER_* environment variables.
+// Without NEXT_PUBLIC_PEER_HOST PeerJS falls back to its public cloud broker.
+
+// Host value meaning "the server this page was loaded from", used with server.js
+const SELF_HOST = 'self';
+
+export interface PeerServerOptions {
+  host?: string;
+  port?: number;
+  path?: string;
+  secure?: boolean;
+  key?: string;
+}
+
+/**
+ * Build the PeerJS broker options for the current environment
+ * @returns Options to spread into the Peer constructor
+ */
+export function getPeerServerOptions(): PeerServerOptions {
+  const host = process.env.NEXT_PUBLIC_PEER_HOST;
+  if (!host) return {};
+
+  const options: PeerServerOptions = {
+    path: process.env.NEXT_PUBLIC_PEER_PATH || '/peerjs',
+    key: process.env.NEXT_PUBLIC_PEER_KEY || 'peerjs'
+  };
+
+  if (host === SELF_HOST && typeof window !== 'undefined') {
+    const secure = window.location.protocol === 'https:';
+    options.host = window.location.hostname;
+    options.port = window.location.port ? parseInt(window.location.port, 10) : (secure ? 443 : 80);
+    options.secure = secure;
+    return options;
+  }
+
+  const secure = process.env.NEXT_PUBLIC_PEER_SECURE
+    ? process.env.NEXT_PUBLIC_PEER_SECURE === 'true'
+    : typeof window !== 'undefined' && window.location.protocol === 'https:';
+  options.host = host;
+  options.port = process.env.NEXT_PUBLIC_PEER_PORT
+    ? parseInt(process.env.NEXT_PUBLIC_PEER_PORT, 10)
+    : (secure ? 443 : 80);
+  options.secure = secure;
+  return options;
+}
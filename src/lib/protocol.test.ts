@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { PROTOCOL_VERSION, createHello, isCompatibleVersion, parseMessage } from './protocol';
+import { CHUNK_SIZE, MAX_CHUNK_SIZE } from './transferProtocol';
+
+const offer = {
+  type: 'file-offer',
+  fileId: 'f1',
+  name: 'photo.jpg',
+  size: CHUNK_SIZE * 2 + 1,
+  dataType: 'image/jpeg',
+  chunkSize: CHUNK_SIZE,
+  totalChunks: 3
+};
+
+describe('parseMessage', () => {
+  it('accepts a well-formed frame', () => {
+    expect(parseMessage(createHello())).toEqual(createHello());
+    expect(parseMessage(offer)).toEqual(offer);
+  });
+
+  it('rejects frames that are not objects or have an unknown type', () => {
+    expect(parseMessage(null)).toBeNull();
+    expect(parseMessage('hello')).toBeNull();
+    expect(parseMessage([])).toBeNull();
+    expect(parseMessage({ type: 'unknown' })).toBeNull();
+    expect(parseMessage({ type: 'toString' })).toBeNull();
+  });
+
+  it('rejects missing and mistyped fields', () => {
+    expect(parseMessage({ type: 'text', content: 'hi' })).toBeNull();
+    expect(parseMessage({ type: 'text', content: 1, timestamp: 'now' })).toBeNull();
+    expect(parseMessage({ ...offer, size: -1 })).toBeNull();
+    expect(parseMessage({ ...offer, size: 1.5 })).toBeNull();
+    expect(parseMessage({ type: 'file-chunk', fileId: 'f1', index: 0, offset: 0, data: 'AAAA' })).toBeNull();
+  });
+
+  it('checks optional and nested fields', () => {
+    const request = {
+      type: 'transfer-request',
+      requestId: 'r1',
+      files: [{ fileId: 'f1', name: 'a.txt', size: 1, dataType: 'text/plain', path: 'docs/a.txt' }],
+      count: 1,
+      totalSize: 1
+    };
+    expect(parseMessage(request)).toEqual(request);
+    expect(parseMessage({ ...request, files: [{ ...request.files[0], path: 3 }] })).toBeNull();
+    expect(parseMessage({ ...offer, resume: 'yes' })).toBeNull();
+  });
+
+  it('rejects offers whose chunk count does not match the size', () => {
+    expect(parseMessage({ ...offer, totalChunks: 2 })).toBeNull();
+    expect(parseMessage({ ...offer, totalChunks: 1000000 })).toBeNull();
+    expect(parseMessage({ ...offer, size: 0, totalChunks: 0 })).not.toBeNull();
+  });
+
+  it('rejects offers with a chunk size out of range', () => {
+    expect(parseMessage({ ...offer, chunkSize: 0, totalChunks: 0 })).toBeNull();
+    expect(parseMessage({ ...offer, size: MAX_CHUNK_SIZE * 2, chunkSize: MAX_CHUNK_SIZE * 2, totalChunks: 1 })).toBeNull();
+    expect(parseMessage({ ...offer, size: MAX_CHUNK_SIZE, chunkSize: MAX_CHUNK_SIZE, totalChunks: 1 })).not.toBeNull();
+  });
+});
+
+describe('isCompatibleVersion', () => {
+  it('accepts the current version and rejects older ones', () => {
+    expect(isCompatibleVersion(PROTOCOL_VERSION)).toBe(true);
+    expect(isCompatibleVersion(PROTOCOL_VERSION + 1)).toBe(true);
+    expect(isCompatibleVersion(1)).toBe(false);
+  });
+});
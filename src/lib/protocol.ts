@@ -0,0 +1,144 @@
+// Every frame exchanged inside the secure channel, with the version handshake
+// and the runtime checks frames must pass before the app sees them.
+
+import {
+  MAX_CHUNK_SIZE,
+  TextMessage,
+  FileDescription,
+  FileOfferMessage,
+  FileTransferMessage
+} from './transferProtocol';
+import { AuthMessage } from './sessionAuth';
+import { DeviceHelloMessage } from './deviceIdentity';
+import { HeartbeatMessage } from './heartbeat';
+
+// Version of the frames below. Version 1 had no handshake, so a peer that
+// sends anything before its hello is treated as version 1.
+export const PROTOCOL_VERSION = 3;
+
+// Oldest version this build can talk to; version 3 replaced the passphrase proof with a PAKE
+export const MIN_PROTOCOL_VERSION = 3;
+
+// Optional features, so a newer peer can tell what an older one understands
+export type Capability = 'resume' | 'folders' | 'cancel' | 'device-identity' | 'heartbeat' | 'reconnect';
+
+const CAPABILITIES: Capability[] = ['resume', 'folders', 'cancel', 'device-identity', 'heartbeat', 'reconnect'];
+
+// First frame each side sends once the channel is secured
+export interface HelloMessage {
+  type: 'hello';
+  version: number;
+  capabilities: string[];
+}
+
+// Sent right before closing a connection on purpose, so the other side does not dial it again
+export interface ByeMessage {
+  type: 'bye';
+}
+
+// Frames the app sends and receives once the connection is authenticated
+export type AppMessage = TextMessage | FileTransferMessage;
+
+export type ProtocolMessage = HelloMessage | ByeMessage | AuthMessage | DeviceHelloMessage | HeartbeatMessage | AppMessage;
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString: FieldCheck = value => typeof value === 'string';
+const isBoolean: FieldCheck = value => typeof value === 'boolean';
+const isNumber: FieldCheck = value => Number.isFinite(value);
+const isCount: FieldCheck = value => Number.isSafeInteger(value) && (value as number) >= 0;
+const isObject: FieldCheck = isRecord;
+const isArrayBuffer: FieldCheck = value => value instanceof ArrayBuffer;
+
+const optional = (check: FieldCheck): FieldCheck => value => value === undefined || check(value);
+const arrayOf = (check: FieldCheck): FieldCheck => value => Array.isArray(value) && value.every(check);
+const shape = (fields: Record<string, FieldCheck>): FieldCheck => value =>
+  isRecord(value) && Object.keys(fields).every(key => fields[key](value[key]));
+
+const FILE_DESCRIPTION_FIELDS: { [K in keyof FileDescription]-?: FieldCheck } = {
+  fileId: isString,
+  name: isString,
+  size: isCount,
+  dataType: isString,
+  path: optional(isString)
+};
+
+// Fields each frame type must carry, every type in the union needs an entry
+const MESSAGE_FIELDS: { [T in ProtocolMessage['type']]: Record<string, FieldCheck> } = {
+  'hello': { version: isCount, capabilities: arrayOf(isString) },
+  'bye': {},
+  'auth-challenge': { nonce: isString, share: isString },
+  'auth-response': { share: isString, proof: isString },
+  'auth-result': { ok: isBoolean },
+  'device-hello': { name: isString, publicKey: isObject, signature: isString },
+  'ping': { sentAt: isNumber },
+  'pong': { sentAt: isNumber },
+  'text': { content: isString, timestamp: isString },
+  'transfer-request': {
+    requestId: isString,
+    files: arrayOf(shape(FILE_DESCRIPTION_FIELDS)),
+    count: isCount,
+    totalSize: isCount
+  },
+  'transfer-response': { requestId: isString, accepted: isBoolean },
+  'file-offer': {
+    fileId: isString,
+    name: isString,
+    size: isCount,
+    dataType: isString,
+    chunkSize: isCount,
+    totalChunks: isCount,
+    resume: optional(isBoolean)
+  },
+  'file-chunk': { fileId: isString, index: isCount, offset: isCount, data: isArrayBuffer },
+  'file-complete': { fileId: isString, sha256: isString },
+  'file-ack': { fileId: isString, offset: isCount },
+  'file-cancel': { fileId: isString }
+};
+
+/**
+ * Check that a file offer describes a chunk layout the receiver can allocate
+ * @param offer Offer whose fields have the right types
+ * @returns Whether the chunk size is in range and the chunk count matches the size
+ */
+function isConsistentOffer(offer: FileOfferMessage): boolean {
+  return offer.chunkSize > 0 &&
+    offer.chunkSize <= MAX_CHUNK_SIZE &&
+    offer.totalChunks === Math.ceil(offer.size / offer.chunkSize);
+}
+
+/**
+ * Create this side's handshake frame
+ * @returns Hello frame
+ */
+export function createHello(): HelloMessage {
+  return { type: 'hello', version: PROTOCOL_VERSION, capabilities: [...CAPABILITIES] };
+}
+
+/**
+ * Check whether a peer's protocol version can be talked to
+ * @param version Version from the peer's hello
+ * @returns Whether the version is supported
+ */
+export function isCompatibleVersion(version: number): boolean {
+  return version >= MIN_PROTOCOL_VERSION;
+}
+
+/**
+ * Validate a decrypted frame
+ * @param frame Frame as decoded from the wire
+ * @returns Typed message, or null if the type is unknown, a field is missing or malformed, or the fields disagree
+ */
+export function parseMessage(frame: unknown): ProtocolMessage | null {
+  if (!isObject(frame)) return null;
+  const type = (frame as { type?: unknown }).type;
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(MESSAGE_FIELDS, type)) return null;
+  const fields = MESSAGE_FIELDS[type as ProtocolMessage['type']];
+  if (!shape(fields)(frame)) return null;
+  const message = frame as ProtocolMessage;
+  if (message.type === 'file-offer' && !isConsistentOffer(message)) return null;
+  return message;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { createRelayReassembler, decodeRelayFrame, encodeRelayFrame, fragmentRelayFrame } from './relayTransport';
+
+/**
+ * Build a buffer of recognizable bytes
+ * @param length Byte length
+ * @returns Buffer
+ */
+function makeBytes(length: number): ArrayBuffer {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) bytes[i] = i % 251;
+  return bytes.buffer;
+}
+
+/**
+ * Compare two large buffers by length and sampled bytes, a full deep compare is slow
+ * @param actual Buffer produced
+ * @param expected Buffer expected
+ */
+function expectSameBytes(actual: ArrayBuffer, expected: ArrayBuffer) {
+  expect(actual.byteLength).toBe(expected.byteLength);
+  const a = new Uint8Array(actual);
+  const b = new Uint8Array(expected);
+  for (let i = 0; i < b.length; i += 4093) expect(a[i]).toBe(b[i]);
+  expect(a[a.length - 1]).toBe(b[b.length - 1]);
+}
+
+/**
+ * Build one relay message
+ * @param flag Fragment flag
+ * @param length Payload length
+ * @returns Message
+ */
+function makeMessage(flag: number, length: number): ArrayBuffer {
+  const message = new Uint8Array(1 + length);
+  message[0] = flag;
+  return message.buffer;
+}
+
+describe('encodeRelayFrame', () => {
+  it('round-trips JSON and binary fields', () => {
+    const frame = { type: 'encrypted', iv: makeBytes(12), data: makeBytes(1000), seq: 7 };
+    const decoded = decodeRelayFrame(encodeRelayFrame(frame));
+    expect(decoded.type).toBe('encrypted');
+    expect(decoded.seq).toBe(7);
+    expect(new Uint8Array(decoded.iv as ArrayBuffer)).toEqual(new Uint8Array(frame.iv));
+    expect(new Uint8Array(decoded.data as ArrayBuffer)).toEqual(new Uint8Array(frame.data));
+    expect(decoded).not.toHaveProperty('__binary');
+  });
+});
+
+describe('fragmentRelayFrame', () => {
+  it('sends small frames whole', () => {
+    const messages = fragmentRelayFrame(makeBytes(100));
+    expect(messages).toHaveLength(1);
+    expect(new Uint8Array(messages[0])[0]).toBe(0);
+    expect(messages[0].byteLength).toBe(101);
+  });
+
+  it('sends an empty frame as one message', () => {
+    expect(fragmentRelayFrame(new ArrayBuffer(0))).toHaveLength(1);
+  });
+
+  it('splits large frames and reassembles them', () => {
+    // Just over two of the relay's 192 KB fragments
+    const frame = makeBytes(2 * 192 * 1024 + 5);
+    const messages = fragmentRelayFrame(frame);
+    expect(messages).toHaveLength(3);
+    expect(messages.map(message => new Uint8Array(message)[0]))
+      .toEqual([...messages.slice(1).map(() => 1), 2]);
+
+    const reassemble = createRelayReassembler();
+    const results = messages.map(message => reassemble(message));
+    expect(results.slice(0, -1).every(result => result === null)).toBe(true);
+    expectSameBytes(results[results.length - 1] as ArrayBuffer, frame);
+  });
+});
+
+describe('createRelayReassembler', () => {
+  it('passes whole frames through and reassembles repeatedly', () => {
+    const reassemble = createRelayReassembler();
+    const first = fragmentRelayFrame(makeBytes(500 * 1024));
+    const whole = fragmentRelayFrame(makeBytes(10));
+    first.slice(0, -1).forEach(message => reassemble(message));
+    expect(reassemble(first[first.length - 1])?.byteLength).toBe(500 * 1024);
+    expect(reassemble(whole[0])?.byteLength).toBe(10);
+  });
+
+  it('rejects a whole frame in the middle of a fragmented one', () => {
+    const reassemble = createRelayReassembler();
+    reassemble(makeMessage(1, 10));
+    expect(() => reassemble(makeMessage(0, 10))).toThrow('interrupted');
+  });
+
+  it('rejects unknown fragment flags', () => {
+    expect(() => createRelayReassembler()(makeMessage(3, 10))).toThrow('Unknown');
+  });
+
+  it('rejects frames over the size limit', () => {
+    const reassemble = createRelayReassembler();
+    // One message reused, the pieces are views of the same buffer
+    const message = makeMessage(1, 1024 * 1024);
+    for (let i = 0; i < 64; i++) reassemble(message);
+    expect(() => reassemble(message)).toThrow('too large');
+  });
+});
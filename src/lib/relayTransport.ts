@@ -0,0 +1,289 @@
+"use client";
+
+// Fallback transport for when WebRTC cannot connect (firewalls, symmetric NAT on
+// both sides). Both devices open a WebSocket to the relay served by server.js,
+// which pairs the two sockets by the ID of the failed data connection and
+// forwards frames between them. The secure channel runs on top unchanged, so
+// the relay only ever sees the key exchange and encrypted frames.
+
+import type { BaseConnectionErrorType, DataConnectionErrorType, PeerError } from 'peerjs';
+import { CHUNK_SIZE } from './transferProtocol';
+
+// Relay WebSocket URL, 'self' for the server this page was loaded from; unset disables the relay
+const RELAY_URL = process.env.NEXT_PUBLIC_RELAY_URL || '';
+
+// Mount point of the relay on this server, must match RELAY_PATH in server.js
+const RELAY_PATH = process.env.NEXT_PUBLIC_RELAY_PATH || '/relay';
+
+// Text message the relay sends to both sockets once they are paired
+const PAIRED_MESSAGE = 'paired';
+
+// Largest message sent in one piece, below the relay's 256 KB limit (RELAY_MAX_FRAME in server.js)
+const RELAY_FRAGMENT_SIZE = 192 * 1024;
+
+// Largest frame reassembled from fragments, e.g. the listing of a very large folder
+const RELAY_MAX_FRAME_SIZE = 64 * 1024 * 1024;
+
+// First byte of each message: a whole frame, or a fragment with more to follow or the last one
+const FRAGMENT_WHOLE = 0;
+const FRAGMENT_MORE = 1;
+const FRAGMENT_LAST = 2;
+
+// Error a data connection reports, PeerJS's own or the relay's
+export type ConnectionError = PeerError<`${DataConnectionErrorType | BaseConnectionErrorType}`>;
+
+// The parts of a PeerJS DataConnection the connection layer uses, the relay implements them too
+export interface DataChannelLike {
+  readonly peer: string;
+  readonly connectionId: string;
+  readonly open: boolean;
+  // Frames PeerJS queued because the channel was full, missing on unbuffered connections
+  readonly bufferSize?: number;
+  readonly dataChannel?: RTCDataChannel;
+  readonly peerConnection?: RTCPeerConnection;
+  send(data: unknown): void;
+  close(): void;
+  on(event: 'open' | 'close', listener: () => void): unknown;
+  on(event: 'data', listener: (data: unknown) => void): unknown;
+  on(event: 'error', listener: (error: ConnectionError) => void): unknown;
+}
+
+// A data connection through the relay
+export interface RelayConnection extends DataChannelLike {
+  readonly relayed: true;
+  // Frames waiting in the socket, in chunks like PeerJS reports its own queue
+  readonly bufferSize: number;
+  readonly dataChannel: undefined;
+  readonly peerConnection: undefined;
+}
+
+// Frame as the relay carries it, binary fields are sent after a JSON header
+type RelayFrame = Record<string, unknown>;
+
+/**
+ * Check whether a relay is configured
+ * @returns Whether failed WebRTC connections can fall back to the relay
+ */
+export function isRelayAvailable(): boolean {
+  return RELAY_URL !== '' && typeof WebSocket !== 'undefined';
+}
+
+/**
+ * Check whether a connection goes through the relay
+ * @param conn Data connection or relay connection
+ * @returns Whether the frames are relayed over WebSocket
+ */
+export function isRelayConnection(conn: unknown): conn is RelayConnection {
+  return (conn as RelayConnection | null)?.relayed === true;
+}
+
+/**
+ * Build the relay URL for a connection
+ * @param connectionId ID both sides share, taken from the failed data connection
+ * @returns WebSocket URL
+ */
+function getRelayUrl(connectionId: string): string {
+  const base = RELAY_URL === 'self'
+    ? `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}${RELAY_PATH}`
+    : RELAY_URL;
+  const separator = base.includes('?') ? '&' : '?';
+  return `${base}${separator}id=${encodeURIComponent(connectionId)}`;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Serialize a frame for the socket, binary fields travel after a JSON header
+ * @param frame Frame with ArrayBuffer fields, like the secure channel's
+ * @returns Encoded frame
+ */
+export function encodeRelayFrame(frame: RelayFrame): ArrayBuffer {
+  const header: RelayFrame = {};
+  const binaries: [string, ArrayBuffer][] = [];
+  Object.keys(frame).forEach(key => {
+    const value = frame[key];
+    if (value instanceof ArrayBuffer) {
+      binaries.push([key, value]);
+    } else {
+      header[key] = value;
+    }
+  });
+  header.__binary = binaries.map(([key, buffer]) => [key, buffer.byteLength]);
+  const headerBytes = textEncoder.encode(JSON.stringify(header));
+
+  // Layout: [4 byte header length][header][binary fields in header order]
+  const totalLength = binaries.reduce((total, [, buffer]) => total + buffer.byteLength, 4 + headerBytes.length);
+  const bytes = new Uint8Array(totalLength);
+  new DataView(bytes.buffer).setUint32(0, headerBytes.length);
+  bytes.set(headerBytes, 4);
+  let offset = 4 + headerBytes.length;
+  binaries.forEach(([, buffer]) => {
+    bytes.set(new Uint8Array(buffer), offset);
+    offset += buffer.byteLength;
+  });
+  return bytes.buffer;
+}
+
+/**
+ * Restore a frame serialized by encodeRelayFrame
+ * @param buffer Encoded frame
+ * @returns Frame
+ */
+export function decodeRelayFrame(buffer: ArrayBuffer): RelayFrame {
+  const headerLength = new DataView(buffer).getUint32(0);
+  const frame: RelayFrame = JSON.parse(textDecoder.decode(new Uint8Array(buffer, 4, headerLength)));
+  let offset = 4 + headerLength;
+  (frame.__binary as [string, number][]).forEach(([key, length]) => {
+    frame[key] = buffer.slice(offset, offset + length);
+    offset += length;
+  });
+  delete frame.__binary;
+  return frame;
+}
+
+/**
+ * Split an encoded frame into messages the relay accepts
+ * @param frame Encoded frame
+ * @returns Messages, each starting with its fragment flag
+ */
+export function fragmentRelayFrame(frame: ArrayBuffer): ArrayBuffer[] {
+  const bytes = new Uint8Array(frame);
+  const messages: ArrayBuffer[] = [];
+  for (let offset = 0; offset < bytes.length || messages.length === 0; offset += RELAY_FRAGMENT_SIZE) {
+    const piece = bytes.subarray(offset, offset + RELAY_FRAGMENT_SIZE);
+    const last = offset + RELAY_FRAGMENT_SIZE >= bytes.length;
+    const message = new Uint8Array(1 + piece.length);
+    message[0] = last ? (offset === 0 ? FRAGMENT_WHOLE : FRAGMENT_LAST) : FRAGMENT_MORE;
+    message.set(piece, 1);
+    messages.push(message.buffer);
+  }
+  return messages;
+}
+
+/**
+ * Reassemble frames from relay messages
+ * @returns Function taking each message, returning the complete frame once its last fragment arrived
+ */
+export function createRelayReassembler(): (message: ArrayBuffer) => ArrayBuffer | null {
+  let pieces: Uint8Array[] = [];
+  let size = 0;
+  return (message: ArrayBuffer) => {
+    const flag = new Uint8Array(message)[0];
+    const piece = new Uint8Array(message, 1);
+    if (flag === FRAGMENT_WHOLE) {
+      if (pieces.length > 0) throw new Error('Relay frame interrupted');
+      return piece.slice().buffer;
+    }
+    if (flag !== FRAGMENT_MORE && flag !== FRAGMENT_LAST) throw new Error('Unknown relay fragment flag');
+    size += piece.length;
+    if (size > RELAY_MAX_FRAME_SIZE) throw new Error('Relay frame too large');
+    pieces.push(piece);
+    if (flag === FRAGMENT_MORE) return null;
+
+    const frame = new Uint8Array(size);
+    let offset = 0;
+    pieces.forEach(item => {
+      frame.set(item, offset);
+      offset += item.length;
+    });
+    pieces = [];
+    size = 0;
+    return frame.buffer;
+  };
+}
+
+/**
+ * Connect to a peer through the relay
+ * @param peer Peer ID of the other device
+ * @param connectionId ID of the data connection that failed, the other side uses the same
+ * @returns Connection that opens once the other device reached the relay too
+ */
+export function openRelayConnection(peer: string, connectionId: string): RelayConnection {
+  const listeners = {
+    open: [] as (() => void)[],
+    data: [] as ((data: unknown) => void)[],
+    close: [] as (() => void)[],
+    error: [] as ((error: ConnectionError) => void)[]
+  };
+  function on(event: 'open' | 'close', listener: () => void): void;
+  function on(event: 'data', listener: (data: unknown) => void): void;
+  function on(event: 'error', listener: (error: ConnectionError) => void): void;
+  function on(event: keyof typeof listeners, listener: (value: never) => void): void {
+    (listeners[event] as ((value: never) => void)[]).push(listener);
+  }
+
+  let open = false;
+  let closed = false;
+  const reassemble = createRelayReassembler();
+  const socket = new WebSocket(getRelayUrl(connectionId));
+  socket.binaryType = 'arraybuffer';
+
+  socket.addEventListener('message', (event: MessageEvent) => {
+    if (typeof event.data === 'string') {
+      if (event.data === PAIRED_MESSAGE && !open && !closed) {
+        open = true;
+        listeners.open.forEach(listener => listener());
+      }
+      return;
+    }
+    if (!open) return;
+    let frame: ArrayBuffer | null;
+    try {
+      frame = reassemble(event.data);
+    } catch (err) {
+      // Later fragments cannot be placed once one went missing, give up on the connection
+      console.warn('Closing relay connection after a bad fragment:', err);
+      socket.close();
+      return;
+    }
+    if (!frame) return;
+    try {
+      const decoded = decodeRelayFrame(frame);
+      listeners.data.forEach(listener => listener(decoded));
+    } catch (err) {
+      console.warn('Dropping malformed relay frame:', err);
+    }
+  });
+
+  socket.addEventListener('close', () => {
+    if (closed) return;
+    closed = true;
+    if (open) {
+      open = false;
+      listeners.close.forEach(listener => listener());
+    } else {
+      // Shaped like the error PeerJS reports when a connection cannot be set up
+      const error = Object.assign(new Error('The other device did not reach the relay'), { type: 'negotiation-failed' as const });
+      listeners.error.forEach(listener => listener(error));
+    }
+  });
+
+  return {
+    relayed: true,
+    peer,
+    connectionId,
+    get open() {
+      return open;
+    },
+    get bufferSize() {
+      return Math.ceil(socket.bufferedAmount / CHUNK_SIZE);
+    },
+    dataChannel: undefined,
+    peerConnection: undefined,
+    send: (data: unknown) => {
+      if (open) fragmentRelayFrame(encodeRelayFrame(data as RelayFrame)).forEach(message => socket.send(message));
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      socket.close();
+      // Like PeerJS, only a connection that was open reports closing
+      if (open) {
+        open = false;
+        listeners.close.forEach(listener => listener());
+      }
+    },
+    on
+  };
+}
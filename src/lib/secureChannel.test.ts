@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSecureChannel, type SecureChannel } from './secureChannel';
+import type { DataChannelLike } from './relayTransport';
+
+type Tamper = (frame: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Build a connection that hands every frame sent to a receiver
+ * @param peer Peer ID of the other side
+ * @param deliver Receiver of the sent frames
+ * @returns Connection
+ */
+function createLoopback(peer: string, deliver: (data: unknown) => void): DataChannelLike {
+  return {
+    peer,
+    connectionId: 'dc_test',
+    open: true,
+    send: (data: unknown) => {
+      // Later in the event loop, like a real data channel
+      setTimeout(() => deliver(data), 0);
+    },
+    close: () => {},
+    on: () => {}
+  };
+}
+
+/**
+ * Connect two secure channels to each other
+ * @param tamper Rewrites frames on their way from A to B
+ * @returns Both channels and their callbacks
+ */
+function connectPair(tamper: Tamper = frame => frame) {
+  const callbacks = {
+    a: { onFrame: vi.fn(), onSecured: vi.fn(), onError: vi.fn() },
+    b: { onFrame: vi.fn(), onSecured: vi.fn(), onError: vi.fn() }
+  };
+  const channels: { a?: SecureChannel; b?: SecureChannel } = {};
+  channels.a = createSecureChannel(
+    createLoopback('b', data => channels.b!.receive(tamper(data as Record<string, unknown>))),
+    callbacks.a
+  );
+  channels.b = createSecureChannel(createLoopback('a', data => channels.a!.receive(data)), callbacks.b);
+  return { a: channels.a, b: channels.b, callbacks };
+}
+
+describe('createSecureChannel', () => {
+  it('derives the same security code on both sides and carries frames', async () => {
+    const { a, b, callbacks } = connectPair();
+    await Promise.all([a.start(), b.start()]);
+    await vi.waitFor(() => expect(a.secured && b.secured).toBe(true));
+
+    expect(a.securityCode).not.toBe('');
+    expect(a.securityCode).toBe(b.securityCode);
+    expect(callbacks.a.onSecured).toHaveBeenCalledWith(a.securityCode);
+    expect(new Uint8Array(a.sessionHash!)).toEqual(new Uint8Array(b.sessionHash!));
+
+    const data = new Uint8Array([1, 2, 3]).buffer;
+    a.send({ type: 'file-chunk', fileId: 'f1', data });
+    a.send({ type: 'text', content: 'hi' });
+    await vi.waitFor(() => expect(callbacks.b.onFrame).toHaveBeenCalledTimes(2));
+    const [chunk] = callbacks.b.onFrame.mock.calls[0];
+    expect(new Uint8Array(chunk.data)).toEqual(new Uint8Array([1, 2, 3]));
+    expect(callbacks.b.onFrame.mock.calls[1][0]).toEqual({ type: 'text', content: 'hi' });
+    expect(callbacks.b.onError).not.toHaveBeenCalled();
+  });
+
+  it('rejects a revealed key that does not match its commitment', async () => {
+    const other = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveKey']);
+    const otherKey = await crypto.subtle.exportKey('raw', other.publicKey);
+    const { a, b, callbacks } = connectPair(frame => frame.type === 'key-exchange' ? { ...frame, publicKey: otherKey } : frame);
+    await Promise.all([a.start(), b.start()]);
+
+    await vi.waitFor(() => expect(callbacks.b.onError).toHaveBeenCalled());
+    expect(callbacks.b.onError.mock.calls[0][0].message).toMatch('does not match its commitment');
+    expect(b.secured).toBe(false);
+    expect(callbacks.b.onSecured).not.toHaveBeenCalled();
+  });
+
+  it('rejects a key revealed before the commitments were exchanged', async () => {
+    const { a, b, callbacks } = connectPair(frame => frame.type === 'key-commit' ? { type: 'ignored' } : frame);
+    // A still reveals its key once it has B's commitment, B never saw A's
+    await Promise.all([a.start(), b.start()]);
+
+    await vi.waitFor(() => expect(callbacks.b.onError).toHaveBeenCalled());
+    expect(callbacks.b.onError.mock.calls[0][0].message).toMatch('before the key commitments');
+  });
+
+  it('fails on a tampered encrypted frame', async () => {
+    const tamper: Tamper = frame => {
+      if (frame.type !== 'encrypted') return frame;
+      const payload = new Uint8Array((frame.payload as ArrayBuffer).slice(0));
+      payload[0] ^= 1;
+      return { ...frame, payload: payload.buffer };
+    };
+    const { a, b, callbacks } = connectPair(tamper);
+    await Promise.all([a.start(), b.start()]);
+    await vi.waitFor(() => expect(a.secured && b.secured).toBe(true));
+
+    a.send({ type: 'text', content: 'hi' });
+    await vi.waitFor(() => expect(callbacks.b.onError).toHaveBeenCalled());
+    expect(callbacks.b.onFrame).not.toHaveBeenCalled();
+    expect(b.open).toBe(false);
+  });
+
+  it('drops unencrypted application frames', async () => {
+    const { a, b, callbacks } = connectPair();
+    await Promise.all([a.start(), b.start()]);
+    await vi.waitFor(() => expect(b.secured).toBe(true));
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    b.receive({ type: 'text', content: 'plain' });
+    await vi.waitFor(() => expect(warn).toHaveBeenCalled());
+    warn.mockRestore();
+    expect(callbacks.b.onFrame).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,369 @@
+"use client";
+
+// Application-level encryption on top of a PeerJS DataConnection.
+// Both sides exchange ECDH public keys right after the connection opens, derive
+// a shared AES-GCM key and encrypt every frame after that. The security code is
+// derived from both public keys, so a man in the middle shows different codes
+// on the two devices.
+//
+// Each side first sends a hash of its public key and only reveals the key once
+// it has the other side's hash. A man in the middle has to fix its own keys
+// before seeing ours, so it cannot try key pairs offline until the short code
+// matches on both devices; it gets one guess per connection.
+
+import type { DataChannelLike } from './relayTransport';
+
+// Emoji used for the security code, 64 entries so each one encodes 6 bits
+const SECURITY_CODE_EMOJI = [
+  '🐶', '🐱', '🐭', '🐹', '🐰', '🦊', '🐻', '🐼',
+  '🐨', '🐯', '🦁', '🐮', '🐷', '🐸', '🐵', '🐔',
+  '🐧', '🐦', '🦆', '🦉', '🐴', '🦄', '🐝', '🐛',
+  '🦋', '🐌', '🐞', '🐢', '🐍', '🐙', '🦀', '🐠',
+  '🐬', '🐳', '🦈', '🐊', '🦒', '🐘', '🦔', '🌵',
+  '🌲', '🌻', '🍄', '🌈', '⭐', '🔥', '❄️', '🌊',
+  '🍎', '🍋', '🍉', '🍇', '🍓', '🍒', '🍍', '🥕',
+  '🌽', '🍕', '🍩', '🎈', '🎸', '🚀', '⚓', '🔑'
+];
+
+// Number of emoji in the security code
+const SECURITY_CODE_LENGTH = 5;
+
+// Frame committing to a public key before it is revealed, sent unencrypted
+interface KeyCommitMessage {
+  type: 'key-commit';
+  // SHA-256 of the raw public key
+  commitment: ArrayBuffer;
+}
+
+// Frame revealing the committed public key, sent unencrypted
+interface KeyExchangeMessage {
+  type: 'key-exchange';
+  publicKey: ArrayBuffer;
+}
+
+// Frame carrying an encrypted application frame
+interface EncryptedMessage {
+  type: 'encrypted';
+  iv: ArrayBuffer;
+  payload: ArrayBuffer;
+}
+
+export interface SecureChannelCallbacks {
+  // Called with each decrypted frame, in the order they were sent
+  onFrame: (frame: unknown) => void;
+  // Called once both sides share a key
+  onSecured: (securityCode: string) => void;
+  // Called when the key exchange or decryption fails
+  onError: (error: Error) => void;
+}
+
+// Encrypting wrapper exposing the parts of a DataConnection the file sender uses
+export interface SecureChannel {
+  readonly connection: DataChannelLike;
+  readonly peer: string;
+  readonly open: boolean;
+  readonly dataChannel: RTCDataChannel | undefined;
+  readonly bufferSize: number;
+  readonly secured: boolean;
+  readonly securityCode: string;
+  // Hash of both public keys, lets other checks bind to this exact session
+  readonly sessionHash: ArrayBuffer | null;
+  start: () => Promise<void>;
+  send: (frame: object) => void;
+  receive: (data: unknown) => void;
+  close: () => void;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Serialize a frame to bytes, keeping a binary data field out of the JSON
+ * @param frame Application frame
+ * @returns Encoded frame
+ */
+function encodeFrame(frame: object): ArrayBuffer {
+  const data = (frame as { data?: unknown }).data;
+  const binary = data instanceof ArrayBuffer ? data : null;
+  const header = binary ? { ...frame, data: undefined } : frame;
+  const headerBytes = textEncoder.encode(JSON.stringify(header));
+  const binaryLength = binary ? binary.byteLength : 0;
+
+  // Layout: [1 byte binary flag][4 byte header length][header][binary]
+  const bytes = new Uint8Array(5 + headerBytes.length + binaryLength);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, binary ? 1 : 0);
+  view.setUint32(1, headerBytes.length);
+  bytes.set(headerBytes, 5);
+  if (binary) {
+    bytes.set(new Uint8Array(binary), 5 + headerBytes.length);
+  }
+  return bytes.buffer as ArrayBuffer;
+}
+
+/**
+ * Restore a frame serialized by encodeFrame
+ * @param buffer Encoded frame
+ * @returns Application frame
+ */
+function decodeFrame(buffer: ArrayBuffer): unknown {
+  const view = new DataView(buffer);
+  const hasBinary = view.getUint8(0) === 1;
+  const headerLength = view.getUint32(1);
+  const frame: unknown = JSON.parse(textDecoder.decode(new Uint8Array(buffer, 5, headerLength)));
+  if (hasBinary && typeof frame === 'object' && frame !== null) {
+    return { ...frame, data: buffer.slice(5 + headerLength) };
+  }
+  return frame;
+}
+
+/**
+ * Hash both public keys into a value identifying this session
+ * @param keyA Raw public key of one side
+ * @param keyB Raw public key of the other side
+ * @returns SHA-256 of the sorted keys
+ */
+async function hashSession(keyA: ArrayBuffer, keyB: ArrayBuffer): Promise<ArrayBuffer> {
+  // Sort the keys so both sides hash the same bytes
+  const a = new Uint8Array(keyA);
+  const b = new Uint8Array(keyB);
+  let order = 0;
+  for (let i = 0; i < Math.min(a.length, b.length) && order === 0; i++) {
+    order = a[i] - b[i];
+  }
+  const [first, second] = order <= 0 ? [a, b] : [b, a];
+
+  const combined = new Uint8Array(first.length + second.length);
+  combined.set(first, 0);
+  combined.set(second, first.length);
+  return crypto.subtle.digest('SHA-256', combined);
+}
+
+/**
+ * Compare two byte strings
+ * @param a First value
+ * @param b Second value
+ * @returns Whether both hold the same bytes
+ */
+function equalBytes(a: ArrayBuffer, b: ArrayBuffer): boolean {
+  const x = new Uint8Array(a);
+  const y = new Uint8Array(b);
+  if (x.length !== y.length) return false;
+  let difference = 0;
+  for (let i = 0; i < x.length; i++) {
+    difference |= x[i] ^ y[i];
+  }
+  return difference === 0;
+}
+
+/**
+ * Derive the security code both users compare
+ * @param sessionHash Hash of both public keys
+ * @returns Emoji security code
+ */
+function deriveSecurityCode(sessionHash: ArrayBuffer): string {
+  const digest = new Uint8Array(sessionHash);
+  const emoji: string[] = [];
+  for (let i = 0; i < SECURITY_CODE_LENGTH; i++) {
+    emoji.push(SECURITY_CODE_EMOJI[digest[i] % SECURITY_CODE_EMOJI.length]);
+  }
+  return emoji.join(' ');
+}
+
+/**
+ * Wrap a DataConnection so every frame is encrypted with a key agreed over ECDH
+ * @param conn PeerJS DataConnection or relay connection
+ * @param callbacks Frame, secured and error callbacks
+ * @returns Secure channel
+ */
+export function createSecureChannel(conn: DataChannelLike, callbacks: SecureChannelCallbacks): SecureChannel {
+  let sessionKey: CryptoKey | null = null;
+  let securityCode = '';
+  let sessionHash: ArrayBuffer | null = null;
+  let pendingSends = 0;
+  let closed = false;
+  // Hash of the other side's public key, it is not accepted before this arrived
+  let theirCommitment: ArrayBuffer | null = null;
+  // Our key is revealed once both commitments are out
+  let committed = false;
+  let revealed = false;
+
+  // Frames are encrypted and decrypted asynchronously, chains keep them in order
+  let sendChain: Promise<void> = Promise.resolve();
+  let receiveChain: Promise<void> = Promise.resolve();
+
+  let resolveSecured: () => void = () => {};
+  const securedPromise = new Promise<void>((resolve) => {
+    resolveSecured = resolve;
+  });
+
+  const keyPairPromise: Promise<CryptoKeyPair> = typeof crypto !== 'undefined' && crypto.subtle
+    ? crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveKey'])
+    : Promise.reject(new Error('Web Crypto is unavailable, encryption requires HTTPS'));
+  // Reported through start() or receive(), avoid an unhandled rejection in between
+  keyPairPromise.catch(() => {});
+
+  const fail = (error: Error) => {
+    if (closed) return;
+    closed = true;
+    console.error('Secure channel error:', error);
+    callbacks.onError(error);
+  };
+
+  // Send our public key once we committed to it and have the other side's commitment
+  const reveal = async () => {
+    if (revealed || !committed || !theirCommitment) return;
+    revealed = true;
+    const keyPair = await keyPairPromise;
+    const publicKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+    const message: KeyExchangeMessage = { type: 'key-exchange', publicKey };
+    conn.send(message);
+  };
+
+  const handleKeyCommit = async (message: KeyCommitMessage) => {
+    if (theirCommitment) {
+      throw new Error('Key commitment sent twice');
+    }
+    if (!(message.commitment instanceof ArrayBuffer)) {
+      throw new Error('Malformed key commitment');
+    }
+    theirCommitment = message.commitment;
+    await reveal();
+  };
+
+  const handleKeyExchange = async (message: KeyExchangeMessage) => {
+    if (sessionKey) return;
+    if (!(message.publicKey instanceof ArrayBuffer)) {
+      throw new Error('Malformed public key');
+    }
+    if (!theirCommitment || !revealed) {
+      throw new Error('Public key received before the key commitments were exchanged');
+    }
+    if (!equalBytes(await crypto.subtle.digest('SHA-256', message.publicKey), theirCommitment)) {
+      throw new Error('Public key does not match its commitment');
+    }
+    const keyPair = await keyPairPromise;
+    const theirKey = await crypto.subtle.importKey(
+      'raw',
+      message.publicKey,
+      { name: 'ECDH', namedCurve: 'P-256' },
+      false,
+      []
+    );
+    sessionKey = await crypto.subtle.deriveKey(
+      { name: 'ECDH', public: theirKey },
+      keyPair.privateKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    const myKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+    sessionHash = await hashSession(myKey, message.publicKey);
+    securityCode = deriveSecurityCode(sessionHash);
+    resolveSecured();
+    callbacks.onSecured(securityCode);
+  };
+
+  const handleEncrypted = async (message: EncryptedMessage) => {
+    if (!sessionKey) {
+      throw new Error('Encrypted frame received before key exchange');
+    }
+    if (!(message.iv instanceof ArrayBuffer) || !(message.payload instanceof ArrayBuffer)) {
+      throw new Error('Malformed encrypted frame');
+    }
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: message.iv },
+      sessionKey,
+      message.payload
+    );
+    callbacks.onFrame(decodeFrame(plaintext));
+  };
+
+  return {
+    get connection() {
+      return conn;
+    },
+    get peer() {
+      return conn.peer;
+    },
+    get open() {
+      return !closed && conn.open;
+    },
+    get dataChannel() {
+      return conn.dataChannel;
+    },
+    // Frames still being encrypted count as buffered so backpressure includes them
+    get bufferSize() {
+      return (conn.bufferSize || 0) + pendingSends;
+    },
+    get secured() {
+      return sessionKey !== null;
+    },
+    get securityCode() {
+      return securityCode;
+    },
+    get sessionHash() {
+      return sessionHash;
+    },
+
+    // Commit to our public key, call once the connection is open
+    start: async () => {
+      try {
+        const keyPair = await keyPairPromise;
+        const publicKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+        const message: KeyCommitMessage = { type: 'key-commit', commitment: await crypto.subtle.digest('SHA-256', publicKey) };
+        conn.send(message);
+        committed = true;
+        await reveal();
+      } catch (err) {
+        fail(err as Error);
+      }
+    },
+
+    send: (frame: object) => {
+      if (closed) return;
+      pendingSends++;
+      sendChain = sendChain.then(async () => {
+        await securedPromise;
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const payload = await crypto.subtle.encrypt(
+          { name: 'AES-GCM', iv },
+          sessionKey as CryptoKey,
+          encodeFrame(frame)
+        );
+        const message: EncryptedMessage = { type: 'encrypted', iv: iv.buffer, payload };
+        if (!closed && conn.open) {
+          conn.send(message);
+        }
+      }).catch((err) => {
+        fail(err as Error);
+      }).finally(() => {
+        pendingSends--;
+      });
+    },
+
+    receive: (data: unknown) => {
+      receiveChain = receiveChain.then(async () => {
+        if (closed) return;
+        // Field types are checked by each handler
+        const type = (data as { type?: unknown } | null)?.type;
+        if (type === 'key-commit') {
+          await handleKeyCommit(data as KeyCommitMessage);
+        } else if (type === 'key-exchange') {
+          await handleKeyExchange(data as KeyExchangeMessage);
+        } else if (type === 'encrypted') {
+          await handleEncrypted(data as EncryptedMessage);
+        } else {
+          // Plaintext frames would bypass encryption, never accept them
+          console.warn('Dropping unencrypted frame:', type);
+        }
+      }).catch((err) => {
+        fail(err as Error);
+      });
+    },
+
+    close: () => {
+      closed = true;
+    }
+  };
+}
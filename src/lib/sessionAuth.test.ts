@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createChallenge, respondToChallenge, verifyResponse } from './sessionAuth';
+
+/**
+ * Make a session hash like the secure channel's
+ * @param fill Byte to fill it with
+ * @returns 32 byte hash
+ */
+function makeSessionHash(fill: number): ArrayBuffer {
+  return new Uint8Array(32).fill(fill).buffer;
+}
+
+describe('sessionAuth', () => {
+  const sessionHash = makeSessionHash(1);
+
+  it('accepts the same passphrase', () => {
+    const pending = createChallenge('1234', sessionHash);
+    const response = respondToChallenge('1234', sessionHash, pending.challenge);
+    expect(verifyResponse(pending, sessionHash, response)).toBe(true);
+  });
+
+  it('rejects a different passphrase', () => {
+    const pending = createChallenge('1234', sessionHash);
+    const response = respondToChallenge('1235', sessionHash, pending.challenge);
+    expect(verifyResponse(pending, sessionHash, response)).toBe(false);
+  });
+
+  it('rejects a response bound to another session', () => {
+    const pending = createChallenge('1234', sessionHash);
+    const response = respondToChallenge('1234', makeSessionHash(2), pending.challenge);
+    expect(verifyResponse(pending, sessionHash, response)).toBe(false);
+  });
+
+  it('rejects a tampered proof or share', () => {
+    const pending = createChallenge('1234', sessionHash);
+    const response = respondToChallenge('1234', sessionHash, pending.challenge);
+    const flipped = (response.proof[0] === '0' ? '1' : '0') + response.proof.slice(1);
+    expect(verifyResponse(pending, sessionHash, { ...response, proof: flipped })).toBe(false);
+    expect(verifyResponse(pending, sessionHash, { ...response, proof: response.proof.slice(2) })).toBe(false);
+
+    const other = respondToChallenge('1234', sessionHash, pending.challenge);
+    expect(verifyResponse(pending, sessionHash, { ...response, share: other.share })).toBe(false);
+    expect(verifyResponse(pending, sessionHash, { ...response, share: 'zz' })).toBe(false);
+    // The identity point would make the secret independent of the passphrase
+    expect(verifyResponse(pending, sessionHash, { ...response, share: '00'.repeat(32) })).toBe(false);
+  });
+
+  it('rejects a response replayed against a new challenge', () => {
+    const first = createChallenge('1234', sessionHash);
+    const response = respondToChallenge('1234', sessionHash, first.challenge);
+    const second = createChallenge('1234', sessionHash);
+    expect(second.challenge.nonce).not.toBe(first.challenge.nonce);
+    expect(verifyResponse(second, sessionHash, response)).toBe(false);
+  });
+
+  it('refuses to answer a challenge with the identity share', () => {
+    const pending = createChallenge('1234', sessionHash);
+    expect(() => respondToChallenge('1234', sessionHash, { ...pending.challenge, share: '00'.repeat(32) })).toThrow();
+  });
+});
@@ -0,0 +1,160 @@
+"use client";
+
+// Passphrase check run inside the encrypted channel, as a balanced PAKE in the
+// style of CPace. Both sides hash the passphrase, the session hash and a fresh
+// nonce to a ristretto255 point, exchange a random multiple of it and derive the
+// same secret only if they used the same passphrase. The joining device proves
+// it holds that secret with an HMAC over the transcript.
+//
+// Nothing sent depends on the passphrase in a way that can be checked offline:
+// someone who captures the frames, or even plays the host, learns at most
+// whether the one passphrase they tried for that connection was right. That is
+// what makes short PINs usable.
+
+import { ristretto255, ristretto255_hasher } from '@noble/curves/ed25519';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+
+// Domain separation tags, so these hashes never collide with other uses of the curve
+const GENERATOR_DST = 'TransferFiles-CPace-generator-v1';
+const SCALAR_DST = 'TransferFiles-CPace-scalar-v1';
+
+// Label of the joiner's key confirmation
+const CONFIRM_LABEL = utf8ToBytes('TransferFiles-CPace-confirm-v1');
+
+export interface AuthChallengeMessage {
+  type: 'auth-challenge';
+  nonce: string;
+  // Host's public share, hex ristretto255 point
+  share: string;
+}
+
+export interface AuthResponseMessage {
+  type: 'auth-response';
+  // Joiner's public share, hex ristretto255 point
+  share: string;
+  proof: string;
+}
+
+// Sent by the host once it has decided whether the joiner may stay
+export interface AuthResultMessage {
+  type: 'auth-result';
+  ok: boolean;
+}
+
+export type AuthMessage = AuthChallengeMessage | AuthResponseMessage | AuthResultMessage;
+
+// What the host keeps until the joiner answers
+export interface PendingChallenge {
+  challenge: AuthChallengeMessage;
+  scalar: bigint;
+}
+
+/**
+ * Derive the generator both sides use for this passphrase and session
+ * @param passphrase Session passphrase
+ * @param sessionHash Hash of both public keys of the secure channel
+ * @param nonce Challenge nonce
+ * @returns Generator point
+ */
+function deriveGenerator(passphrase: string, sessionHash: ArrayBuffer, nonce: string) {
+  const input = concatBytes(utf8ToBytes(passphrase), new Uint8Array(sessionHash), hexToBytes(nonce));
+  return ristretto255_hasher.hashToCurve(input, { DST: GENERATOR_DST }) as InstanceType<typeof ristretto255.Point>;
+}
+
+/**
+ * Pick a random non-zero scalar
+ * @returns Scalar
+ */
+function randomScalar(): bigint {
+  let scalar = BigInt(0);
+  while (scalar === BigInt(0)) {
+    scalar = ristretto255_hasher.hashToScalar(crypto.getRandomValues(new Uint8Array(64)), { DST: SCALAR_DST });
+  }
+  return scalar;
+}
+
+/**
+ * Combine our secret scalar with the other side's share
+ * @param scalar Our scalar
+ * @param share Other side's share, hex
+ * @returns Shared secret
+ */
+function deriveSharedSecret(scalar: bigint, share: string): Uint8Array {
+  const point = ristretto255.Point.fromHex(share);
+  // The identity would make the secret independent of the passphrase
+  if (point.is0()) throw new Error('Invalid passphrase share');
+  return point.multiply(scalar).toBytes();
+}
+
+/**
+ * Compute the joiner's key confirmation
+ * @param secret Shared secret
+ * @param sessionHash Hash of both public keys of the secure channel
+ * @param challenge Host's challenge
+ * @param share Joiner's share
+ * @returns Hex proof
+ */
+function computeProof(secret: Uint8Array, sessionHash: ArrayBuffer, challenge: AuthChallengeMessage, share: string): string {
+  const transcript = concatBytes(
+    CONFIRM_LABEL,
+    new Uint8Array(sessionHash),
+    hexToBytes(challenge.nonce),
+    hexToBytes(challenge.share),
+    hexToBytes(share)
+  );
+  return bytesToHex(hmac(sha256, secret, transcript));
+}
+
+/**
+ * Start the passphrase check as host
+ * @param passphrase Session passphrase
+ * @param sessionHash Hash of both public keys of the secure channel
+ * @returns Challenge to send, and the state to verify the answer with
+ */
+export function createChallenge(passphrase: string, sessionHash: ArrayBuffer): PendingChallenge {
+  const nonce = bytesToHex(crypto.getRandomValues(new Uint8Array(16)));
+  const scalar = randomScalar();
+  const share = deriveGenerator(passphrase, sessionHash, nonce).multiply(scalar).toHex();
+  return { challenge: { type: 'auth-challenge', nonce, share }, scalar };
+}
+
+/**
+ * Answer a host's challenge
+ * @param passphrase Session passphrase
+ * @param sessionHash Hash of both public keys of the secure channel
+ * @param challenge Challenge from the host
+ * @returns Response frame
+ */
+export function respondToChallenge(passphrase: string, sessionHash: ArrayBuffer, challenge: AuthChallengeMessage): AuthResponseMessage {
+  const scalar = randomScalar();
+  const share = deriveGenerator(passphrase, sessionHash, challenge.nonce).multiply(scalar).toHex();
+  const secret = deriveSharedSecret(scalar, challenge.share);
+  return { type: 'auth-response', share, proof: computeProof(secret, sessionHash, challenge, share) };
+}
+
+/**
+ * Check the joining device's response
+ * @param pending State from createChallenge
+ * @param sessionHash Hash of both public keys of the secure channel
+ * @param response Response received
+ * @returns Whether the joiner used the same passphrase
+ */
+export function verifyResponse(pending: PendingChallenge, sessionHash: ArrayBuffer, response: AuthResponseMessage): boolean {
+  let expected: string;
+  try {
+    expected = computeProof(deriveSharedSecret(pending.scalar, response.share), sessionHash, pending.challenge, response.share);
+  } catch (err) {
+    console.warn('Malformed passphrase response:', err);
+    return false;
+  }
+  const proof = response.proof;
+  if (typeof proof !== 'string' || proof.length !== expected.length) return false;
+  // Compare every character so timing does not reveal the matching prefix
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ proof.charCodeAt(i);
+  }
+  return diff === 0;
+}
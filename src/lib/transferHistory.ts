@@ -0,0 +1,206 @@
+"use client";
+
+// Opt-in local history of messages and files, kept in IndexedDB so it survives
+// refreshes and disconnects. Nothing is recorded until the user enables it.
+
+const DB_NAME = 'transferfiles-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+// localStorage keys for the history settings
+const ENABLED_KEY = 'historyEnabled';
+const KEEP_FILES_KEY = 'historyKeepFiles';
+
+// Received files are only stored while all stored files stay below this size
+export const HISTORY_FILE_QUOTA = 500 * 1024 * 1024;
+
+// Dispatched on window whenever the history changes
+export const HISTORY_CHANGE_EVENT = 'transfer-history-change';
+
+// Entries recorded during one page load share a session
+const SESSION_ID = Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+export interface HistoryEntry {
+  id: string;
+  peerId: string;
+  sessionId: string;
+  direction: 'sent' | 'received';
+  kind: 'text' | 'file';
+  // Message text, or file name
+  content: string;
+  timestamp: number;
+  size?: number;
+  type?: string;
+  path?: string;
+  verified?: boolean;
+  // File data, only kept for received files when enabled and within the quota
+  blob?: Blob;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'sessionId' | 'timestamp' | 'blob'>;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('peerId', 'peerId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      // Allow a later call to try again
+      databasePromise = null;
+      throw err;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Run one transaction on the history store
+ * @param mode Transaction mode
+ * @param run Issues the requests, may return the one whose result is wanted
+ * @returns Result of the returned request once the transaction completed
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve((request ? request.result : undefined) as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function notifyChange() {
+  window.dispatchEvent(new Event(HISTORY_CHANGE_EVENT));
+}
+
+function readSetting(key: string): boolean {
+  if (typeof window === 'undefined') return false;
+  try {
+    return localStorage.getItem(key) === 'true';
+  } catch (err) {
+    console.error('Failed to read history setting:', err);
+    return false;
+  }
+}
+
+function writeSetting(key: string, enabled: boolean) {
+  try {
+    localStorage.setItem(key, String(enabled));
+  } catch (err) {
+    console.error('Failed to save history setting:', err);
+  }
+}
+
+/**
+ * Check whether the history is recorded
+ * @returns Whether the user enabled the history
+ */
+export function isHistoryEnabled(): boolean {
+  return readSetting(ENABLED_KEY) && typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Enable or disable recording the history, existing entries are kept
+ * @param enabled Whether to record
+ */
+export function setHistoryEnabled(enabled: boolean): void {
+  writeSetting(ENABLED_KEY, enabled);
+}
+
+/**
+ * Check whether received files are stored along with their details
+ * @returns Whether file data is kept
+ */
+export function isKeepingHistoryFiles(): boolean {
+  return readSetting(KEEP_FILES_KEY);
+}
+
+/**
+ * Enable or disable storing received files in the history
+ * @param enabled Whether to keep file data
+ */
+export function setKeepingHistoryFiles(enabled: boolean): void {
+  writeSetting(KEEP_FILES_KEY, enabled);
+}
+
+/**
+ * Get every history entry
+ * @returns Entries, newest first
+ */
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Get the space taken by stored files
+ * @param entries History entries
+ * @returns Total size of the stored files in bytes
+ */
+export function getStoredFileSize(entries: HistoryEntry[]): number {
+  return entries.reduce((total, entry) => total + (entry.blob?.size || 0), 0);
+}
+
+/**
+ * Record a message or file, does nothing while the history is disabled
+ * @param entry Entry details
+ * @param blob File data to keep, if storing files is enabled and it fits in the quota
+ */
+export async function addHistoryEntry(entry: NewHistoryEntry, blob?: Blob): Promise<void> {
+  if (!isHistoryEnabled()) return;
+
+  try {
+    let keptBlob: Blob | undefined;
+    if (blob && isKeepingHistoryFiles()) {
+      const used = getStoredFileSize(await listHistory());
+      if (used + blob.size <= HISTORY_FILE_QUOTA) {
+        keptBlob = blob;
+      } else {
+        console.log('History file quota reached, keeping only the details of', entry.content);
+      }
+    }
+
+    const record: HistoryEntry = {
+      ...entry,
+      id: Date.now().toString(36) + '-' + Math.random().toString(36).slice(2, 9),
+      sessionId: SESSION_ID,
+      timestamp: Date.now(),
+      blob: keptBlob
+    };
+    await withStore('readwrite', store => { store.put(record); });
+    notifyChange();
+  } catch (err) {
+    console.error('Failed to save history entry:', err);
+  }
+}
+
+/**
+ * Delete one history entry
+ * @param id Entry ID
+ */
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStore('readwrite', store => { store.delete(id); });
+  notifyChange();
+}
+
+/**
+ * Delete the history of one peer, or all of it
+ * @param peerId Peer whose entries to delete, all entries when omitted
+ */
+export async function clearHistory(peerId?: string): Promise<void> {
+  if (peerId) {
+    const ids = await withStore<IDBValidKey[]>('readonly', store => store.index('peerId').getAllKeys(peerId));
+    await withStore('readwrite', store => ids.forEach(id => store.delete(id)));
+  } else {
+    await withStore('readwrite', store => { store.clear(); });
+  }
+  notifyChange();
+}
@@ -0,0 +1,87 @@
+// Byte-level progress, speed and ETA for a single file transfer
+
+// Minimum time between speed samples, shorter windows are too noisy
+const SPEED_SAMPLE_INTERVAL = 500;
+
+// Weight of the newest sample in the smoothed speed
+const SPEED_SMOOTHING = 0.3;
+
+export type TransferDirection = 'sending' | 'receiving';
+
+export interface TransferProgress {
+  fileId: string;
+  // Remote peer the file is sent to or received from
+  peerId: string;
+  name: string;
+  size: number;
+  direction: TransferDirection;
+  transferredBytes: number;
+  bytesPerSecond: number;
+  etaSeconds: number | null;
+  startedAt: number;
+  sampledAt: number;
+  sampledBytes: number;
+}
+
+/**
+ * Create progress for a transfer that has just started
+ * @param fileId File ID
+ * @param name File name
+ * @param size File size in bytes
+ * @param direction Whether the file is being sent or received
+ * @param peerId Remote peer ID
+ * @returns Initial progress
+ */
+export function createProgress(fileId: string, name: string, size: number, direction: TransferDirection, peerId: string): TransferProgress {
+  const now = Date.now();
+  return {
+    fileId,
+    peerId,
+    name,
+    size,
+    direction,
+    transferredBytes: 0,
+    bytesPerSecond: 0,
+    etaSeconds: null,
+    startedAt: now,
+    sampledAt: now,
+    sampledBytes: 0
+  };
+}
+
+/**
+ * Record the number of bytes transferred so far
+ * @param progress Current progress
+ * @param transferredBytes Total bytes transferred
+ * @param now Current time in milliseconds
+ * @returns Updated progress
+ */
+export function recordProgress(progress: TransferProgress, transferredBytes: number, now: number = Date.now()): TransferProgress {
+  const next = { ...progress, transferredBytes };
+  const elapsed = now - progress.sampledAt;
+
+  if (elapsed >= SPEED_SAMPLE_INTERVAL) {
+    const sampleSpeed = ((transferredBytes - progress.sampledBytes) / elapsed) * 1000;
+    next.bytesPerSecond = progress.bytesPerSecond === 0
+      ? sampleSpeed
+      : progress.bytesPerSecond * (1 - SPEED_SMOOTHING) + sampleSpeed * SPEED_SMOOTHING;
+    next.sampledAt = now;
+    next.sampledBytes = transferredBytes;
+  }
+
+  next.etaSeconds = next.bytesPerSecond > 0
+    ? Math.max(0, (next.size - transferredBytes) / next.bytesPerSecond)
+    : null;
+
+  return next;
+}
+
+/**
+ * Get completion percentage
+ * @param progress Transfer progress
+ * @returns Percentage between 0 and 100
+ */
+export function getProgressPercent(progress: TransferProgress): number {
+  if (progress.size === 0) return 100;
+  return Math.min(100, (progress.transferredBytes / progress.size) * 100);
+}
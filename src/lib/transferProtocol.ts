@@ -0,0 +1,102 @@
+// Wire frames for chunked file transfer over a PeerJS DataConnection
+
+// Size of each file slice read from disk and sent as one chunk frame
+export const CHUNK_SIZE = 64 * 1024;
+
+// Largest chunk size a receiver accepts in an offer
+export const MAX_CHUNK_SIZE = 1024 * 1024;
+
+// Pause sending while the data channel has more than this queued
+export const MAX_BUFFERED_AMOUNT = 4 * 1024 * 1024;
+
+// Resume sending once the queue drains below this value
+export const BUFFERED_AMOUNT_LOW_THRESHOLD = 1024 * 1024;
+
+// The receiver acknowledges its contiguous offset every this many chunks
+export const ACK_INTERVAL_CHUNKS = 16;
+
+// Bytes the sender may send beyond the receiver's last acknowledgement
+export const MAX_UNACKED_BYTES = 16 * 1024 * 1024;
+
+export interface TextMessage {
+  type: 'text';
+  content: string;
+  timestamp: string;
+}
+
+// Name, size and type of a file, as shown to the receiver before it accepts
+export interface FileDescription {
+  fileId: string;
+  name: string;
+  size: number;
+  dataType: string;
+  // Path inside a sent folder, e.g. "photos/2024/img.jpg"; absent for loose files
+  path?: string;
+}
+
+// Asks the receiver to accept a batch of files before any data is sent
+export interface TransferRequestMessage {
+  type: 'transfer-request';
+  requestId: string;
+  files: FileDescription[];
+  count: number;
+  totalSize: number;
+}
+
+export interface TransferResponseMessage {
+  type: 'transfer-response';
+  requestId: string;
+  accepted: boolean;
+}
+
+// Announces a file before any of its chunks are sent
+export interface FileOfferMessage {
+  type: 'file-offer';
+  fileId: string;
+  name: string;
+  size: number;
+  dataType: string;
+  chunkSize: number;
+  totalChunks: number;
+  // Set when re-offering a transfer that was interrupted
+  resume?: boolean;
+}
+
+export interface FileChunkMessage {
+  type: 'file-chunk';
+  fileId: string;
+  index: number;
+  offset: number;
+  data: ArrayBuffer;
+}
+
+// Sent after the last chunk of a file
+export interface FileCompleteMessage {
+  type: 'file-complete';
+  fileId: string;
+  // Hex SHA-256 of the whole file, hashed while it was being sent
+  sha256: string;
+}
+
+// Receiver's acknowledgement that every byte before offset has arrived
+export interface FileAckMessage {
+  type: 'file-ack';
+  fileId: string;
+  offset: number;
+}
+
+// Either side gave up on a file: the sender stopped, or the receiver could not store it
+export interface FileCancelMessage {
+  type: 'file-cancel';
+  fileId: string;
+}
+
+export type FileTransferMessage = TransferRequestMessage | TransferResponseMessage | FileOfferMessage | FileChunkMessage | FileCompleteMessage | FileAckMessage | FileCancelMessage;
+
+/**
+ * Generate an ID for an outgoing file
+ * @returns Unique file ID
+ */
+export function createFileId(): string {
+  return Date.now() + '-' + Math.random().toString(36).substr(2, 9);
+}
@@ -0,0 +1,59 @@
+// Outgoing transfer queue: every accepted file is an item that is sent in turn
+
+export type QueueItemState = 'queued' | 'sending' | 'paused' | 'done' | 'failed' | 'cancelled';
+
+// A file waiting for, or going through, the queue, as shown in the UI
+export interface QueueItem {
+  fileId: string;
+  // Transfer request the file was accepted in
+  batchId: string;
+  peerId: string;
+  name: string;
+  path?: string;
+  size: number;
+  state: QueueItemState;
+  // Bytes the receiver has confirmed
+  ackedBytes: number;
+}
+
+/**
+ * Check whether an item will not be sent any further
+ * @param state Queue item state
+ * @returns Whether the item is done, failed or cancelled
+ */
+export function isFinishedState(state: QueueItemState): boolean {
+  return state === 'done' || state === 'failed' || state === 'cancelled';
+}
+
+/**
+ * Check whether an item can be paused
+ * @param state Queue item state
+ * @returns Whether the item is waiting or sending
+ */
+export function canPause(state: QueueItemState): boolean {
+  return state === 'queued' || state === 'sending';
+}
+
+/**
+ * Move an item up or down among the other items of its batch
+ * @param items Queue in sending order
+ * @param fileId Item to move
+ * @param offset -1 to send it earlier, 1 to send it later
+ * @returns Reordered queue
+ */
+export function moveQueueItem<T extends { fileId: string; batchId: string }>(items: T[], fileId: string, offset: number): T[] {
+  const index = items.findIndex(item => item.fileId === fileId);
+  if (index === -1) return items;
+  const batchId = items[index].batchId;
+
+  // Swap with the nearest item of the same batch in the given direction
+  let target = index + offset;
+  while (target >= 0 && target < items.length && items[target].batchId !== batchId) {
+    target += offset;
+  }
+  if (target < 0 || target >= items.length) return items;
+
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
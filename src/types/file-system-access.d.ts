@@ -0,0 +1,18 @@
+// File System Access API pickers, only available in Chromium based browsers
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+}
+
+interface DirectoryPickerOptions {
+  mode?: 'read' | 'readwrite';
+}
+
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+    showDirectoryPicker?: (options?: DirectoryPickerOptions) => Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+export {};
@@ -1,7 +1,7 @@
 // 全局类型声明文件
 
 // 全局扩展，引用单独定义的类型
-// 具体类型已在qrcode.d.ts和peer.d.ts中定义
+// 具体类型已在qrcode.d.ts中定义，PeerJS自带类型声明
 
 // 强制TypeScript将此文件视为模块
-export {}; 
\ No newline at end of file
+export {};
@@ -45,4 +45,32 @@ export function showToast(message: string, isError: boolean = false): void {
       toast.remove();
     }, 300);
   }, 2000);
-} 
\ No newline at end of file
+} 
+/**
+ * Format a duration for display
+ * @param seconds Duration in seconds
+ * @returns Formatted string
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.ceil(seconds);
+  if (total < 60) return total + 's';
+  if (total < 3600) return Math.floor(total / 60) + 'm ' + (total % 60) + 's';
+  return Math.floor(total / 3600) + 'h ' + Math.floor((total % 3600) / 60) + 'm';
+}
+
+/**
+ * Shorten a peer ID for display
+ * @param peerId Peer ID
+ * @returns First characters of the ID
+ */
+export function formatPeerId(peerId: string): string {
+  return peerId.length > 8 ? peerId.slice(0, 8) + '…' : peerId;
+}
+
+/**
+ * Generate an ID for an item shown in a list
+ * @returns Unique ID, also when several items are created in the same millisecond
+ */
+export function createItemId(): string {
+  return Date.now().toString(36) + '-' + Math.random().toString(36).slice(2, 9);
+}